@@ -1,9 +1,42 @@
 import esbuild from "esbuild";
 import process from "process";
 import builtins from "builtin-modules";
+import path from "path";
 
 const prod = process.argv[2] === "production";
 
+/**
+ * `import source from "inline-worker:./foo.worker"` bundles foo.worker.ts on
+ * its own and imports the result as a string, so the plugin can start it as a
+ * Web Worker from a Blob URL while still shipping a single main.js.
+ */
+const inlineWorkerPlugin = {
+    name: "inline-worker",
+    setup(build) {
+        build.onResolve({ filter: /^inline-worker:/ }, (args) => ({
+            path: path.resolve(args.resolveDir, args.path.slice("inline-worker:".length) + ".ts"),
+            namespace: "inline-worker",
+        }));
+        build.onLoad({ filter: /.*/, namespace: "inline-worker" }, async (args) => {
+            const result = await esbuild.build({
+                entryPoints: [args.path],
+                bundle: true,
+                write: false,
+                format: "iife",
+                target: "es2018",
+                minify: prod,
+                sourcemap: prod ? false : "inline",
+                metafile: true,
+            });
+            return {
+                contents: result.outputFiles[0].text,
+                loader: "text",
+                watchFiles: Object.keys(result.metafile.inputs).map((file) => path.resolve(file)),
+            };
+        });
+    },
+};
+
 const context = await esbuild.context({
     entryPoints: ["src/main.ts"],
     bundle: true,
@@ -15,6 +48,7 @@ const context = await esbuild.context({
     sourcesContent: !prod,
     treeShaking: true,
     outfile: "main.js",
+    plugins: [inlineWorkerPlugin],
 });
 
 if (prod) {
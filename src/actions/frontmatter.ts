@@ -0,0 +1,85 @@
+import { App, TFile } from "obsidian";
+
+/** One frontmatter key across a set of notes. */
+export interface FrontmatterField {
+    key: string;
+    /** Value per note, in the order the notes were given; undefined where the key is missing. */
+    values: unknown[];
+    /** At least one note has a list here, so the values can be unioned. */
+    isList: boolean;
+    /** The notes that have the key don't all agree on its value. */
+    conflict: boolean;
+}
+
+/** Deep equality for parsed YAML values. */
+export function sameValue(a: unknown, b: unknown): boolean {
+    return JSON.stringify(a) === JSON.stringify(b);
+}
+
+/**
+ * Table every frontmatter key of `files`, as parsed by the metadata cache,
+ * in the order keys are first seen.
+ */
+export function compareFrontmatter(app: App, files: TFile[]): FrontmatterField[] {
+    const frontmatters = files.map((f) => app.metadataCache.getFileCache(f)?.frontmatter ?? {});
+
+    const keys: string[] = [];
+    for (const frontmatter of frontmatters) {
+        for (const key of Object.keys(frontmatter)) {
+            if (!keys.includes(key)) keys.push(key);
+        }
+    }
+
+    return keys.map((key): FrontmatterField => {
+        const values = frontmatters.map((fm) => fm[key]);
+        const present = values.filter((v) => v !== undefined);
+        return {
+            key,
+            values,
+            isList: present.some(Array.isArray),
+            conflict: present.some((v) => !sameValue(v, present[0])),
+        };
+    });
+}
+
+/** Items of every value in order, scalars treated as one-item lists, duplicates dropped. */
+export function unionValues(values: unknown[]): unknown[] {
+    const union: unknown[] = [];
+    for (const value of values) {
+        if (value === undefined || value === null) continue;
+        for (const item of Array.isArray(value) ? value : [value]) {
+            if (!union.some((u) => sameValue(u, item))) union.push(item);
+        }
+    }
+    return union;
+}
+
+/**
+ * The value to keep for a field without asking: lists are unioned (the
+ * preferred note's items first), otherwise the preferred note's value, or
+ * the first note that has one.
+ */
+export function defaultFieldValue(field: FrontmatterField, preferred: number): unknown {
+    if (field.isList) {
+        return unionValues([field.values[preferred], ...field.values]);
+    }
+    return field.values[preferred] !== undefined
+        ? field.values[preferred]
+        : field.values.find((v) => v !== undefined);
+}
+
+/**
+ * Set `values` in `file`'s frontmatter with `processFrontMatter`; keys set
+ * to undefined are removed.  Keys not mentioned are left as they are.
+ */
+export async function writeFrontmatter(app: App, file: TFile, values: Record<string, unknown>): Promise<void> {
+    await app.fileManager.processFrontMatter(file, (frontmatter) => {
+        for (const [key, value] of Object.entries(values)) {
+            if (value === undefined) {
+                delete frontmatter[key];
+            } else {
+                frontmatter[key] = value;
+            }
+        }
+    });
+}
@@ -0,0 +1,120 @@
+import { App, TFile } from "obsidian";
+import { DuplicateGroup, KeepRule, KeepRuleType } from "src/types";
+import { findReferences } from "./links";
+
+export const KEEP_RULE_LABELS: Record<KeepRuleType, string> = {
+    "newest": "Newest",
+    "largest": "Largest file",
+    "most-backlinks": "Most backlinks",
+    "folder-order": "Preferred folder",
+    "has-key": "Has property",
+};
+
+/** One rule's pick for a group; null when it can't tell the files apart. */
+export interface RuleVote {
+    rule: KeepRule;
+    winner: TFile | null;
+}
+
+export interface KeepProposal {
+    group: DuplicateGroup;
+    votes: RuleVote[];
+    /** The file every deciding rule picked; unset when they disagree or none decided. */
+    winner?: TFile;
+    /** The rest of the group, trashed when the proposal is applied. */
+    losers: TFile[];
+    /**
+     * Set when the rules decided, but the group shares a file with another
+     * decided group: it is left for manual review, as applying both could
+     * trash a file the other keeps.
+     */
+    sharesFiles?: boolean;
+}
+
+/** The only file with the highest score, or null on a tie. */
+function uniqueBest(files: TFile[], score: (file: TFile) => number): TFile | null {
+    let best: TFile | null = null;
+    let bestScore = -Infinity;
+    let tied = false;
+    for (const file of files) {
+        const s = score(file);
+        if (s > bestScore) {
+            best = file;
+            bestScore = s;
+            tied = false;
+        } else if (s === bestScore) {
+            tied = true;
+        }
+    }
+    return tied ? null : best;
+}
+
+function ruleWinner(app: App, rule: KeepRule, files: TFile[], backlinks: Map<string, TFile[]>): TFile | null {
+    switch (rule.type) {
+        case "newest":
+            return uniqueBest(files, (f) => f.stat.mtime);
+        case "largest":
+            return uniqueBest(files, (f) => f.stat.size);
+        case "most-backlinks":
+            return uniqueBest(files, (f) => backlinks.get(f.path)?.length ?? 0);
+        case "folder-order": {
+            const folders = (rule.folders || []).map((f) => f.replace(/\/+$/, "")).filter(Boolean);
+            const rank = (file: TFile) => {
+                const index = folders.findIndex((folder) => file.path.startsWith(`${folder}/`));
+                return index === -1 ? folders.length : index;
+            };
+            return uniqueBest(files, (f) => -rank(f));
+        }
+        case "has-key": {
+            if (!rule.key) return null;
+            const having = files.filter((f) => {
+                const value = app.metadataCache.getFileCache(f)?.frontmatter?.[rule.key!];
+                return value !== undefined && value !== null && value !== "";
+            });
+            return having.length === 1 ? having[0] : null;
+        }
+    }
+}
+
+/**
+ * Evaluate the enabled `rules` against every group.  A group gets a winner
+ * when at least one rule picks a file and every rule that picks one picks
+ * the same; rules that tie don't count against it.  Decided groups sharing
+ * a file (folder comparison and single-note groups can) lose their winner
+ * and are marked `sharesFiles`.
+ */
+export function proposeKeepers(app: App, groups: DuplicateGroup[], rules: KeepRule[]): KeepProposal[] {
+    const active = rules.filter((r) => r.enabled);
+    const backlinks = active.some((r) => r.type === "most-backlinks")
+        ? findReferences(app, groups.flatMap((g) => g.files))
+        : new Map<string, TFile[]>();
+
+    const proposals = groups.map((group): KeepProposal => {
+        const votes = active.map((rule): RuleVote => ({
+            rule,
+            winner: ruleWinner(app, rule, group.files, backlinks),
+        }));
+        const winners = new Set(votes.map((v) => v.winner).filter((w): w is TFile => w !== null));
+        const winner = winners.size === 1 ? winners.values().next().value : undefined;
+        return {
+            group,
+            votes,
+            winner,
+            losers: winner ? group.files.filter((f) => f !== winner) : [],
+        };
+    });
+
+    const decidedIn = new Map<string, number>();
+    for (const proposal of proposals) {
+        if (!proposal.winner) continue;
+        for (const file of proposal.group.files) decidedIn.set(file.path, (decidedIn.get(file.path) || 0) + 1);
+    }
+    for (const proposal of proposals) {
+        if (proposal.winner && proposal.group.files.some((f) => decidedIn.get(f.path)! > 1)) {
+            proposal.winner = undefined;
+            proposal.losers = [];
+            proposal.sharesFiles = true;
+        }
+    }
+    return proposals;
+}
@@ -0,0 +1,126 @@
+import { App, TFile, parseLinktext } from "obsidian";
+
+/** What `redirectLinks` changed. */
+export interface RedirectSummary {
+    /** Notes whose text was rewritten. */
+    notes: TFile[];
+    /** Links and embeds repointed across those notes. */
+    links: number;
+}
+
+/**
+ * Notes that link to or embed any of `targets`, keyed by target path.  Read
+ * from the metadata cache's resolved links, so it is cheap on any vault size.
+ */
+export function findReferences(app: App, targets: TFile[]): Map<string, TFile[]> {
+    const references = new Map<string, TFile[]>(targets.map((t) => [t.path, []]));
+    for (const [sourcePath, links] of Object.entries(app.metadataCache.resolvedLinks)) {
+        for (const targetPath of Object.keys(links)) {
+            const list = references.get(targetPath);
+            if (!list) continue;
+            const source = app.vault.getFileByPath(sourcePath);
+            if (source) list.push(source);
+        }
+    }
+    return references;
+}
+
+/**
+ * Percent-encode a path for a bare Markdown link destination, including the
+ * `(`, `)` and `#` that `encodeURI` leaves but would end or split the link.
+ */
+function encodeDestination(path: string): string {
+    return encodeURI(path).replace(/[()#]/g, (c) => `%${c.charCodeAt(0).toString(16).toUpperCase()}`);
+}
+
+/** A bare destination's path as written on disk; unchanged when it isn't valid percent-encoding. */
+function decodeDestination(path: string): string {
+    try {
+        return decodeURI(path);
+    } catch {
+        return path;
+    }
+}
+
+/**
+ * Rewrite one link as written in a note so it points at `linktext`, keeping
+ * its embed marker, subpath (`#heading`, `#^block`) and display text.
+ * Markdown links that spelled out the `.md` extension get `fullLinktext`,
+ * which keeps it.  Returns null for syntax it doesn't recognise.
+ */
+function retargetLink(original: string, linktext: string, fullLinktext: string): string | null {
+    // ![[path#subpath|display]]
+    const wiki = original.match(/^(!?)\[\[([^\]|#]*)(#[^\]|]*)?(\|[^\]]*)?\]\]$/);
+    if (wiki) {
+        return `${wiki[1]}[[${linktext}${wiki[3] ?? ""}${wiki[4] ?? ""}]]`;
+    }
+
+    // ![display](path#subpath "title") or ![display](<path#subpath>)
+    const markdown = original.match(/^(!?\[[^\]]*\]\()(<[^>]*>|[^)\s]*)(.*)$/);
+    if (markdown) {
+        const destination = markdown[2];
+        const angled = destination.startsWith("<");
+        const bare = angled ? destination.slice(1, -1) : destination;
+        const hash = bare.indexOf("#");
+        const subpath = hash === -1 ? "" : bare.slice(hash);
+        const oldPath = hash === -1 ? bare : bare.slice(0, hash);
+        const target = /\.md$/i.test(angled ? oldPath : decodeDestination(oldPath)) ? fullLinktext : linktext;
+        const path = angled ? target : encodeDestination(target);
+        return `${markdown[1]}${angled ? `<${path}${subpath}>` : path + subpath}${markdown[3]}`;
+    }
+
+    return null;
+}
+
+/**
+ * Repoint every link and embed to any of `from` so it targets `to` instead,
+ * in every note that references them.  Links in frontmatter properties are
+ * left alone, as are `to` and the `from` notes themselves.  Each note is
+ * rewritten atomically with `vault.process`, and a link is only touched when
+ * the text at its cached position still matches.
+ */
+export async function redirectLinks(app: App, from: TFile[], to: TFile): Promise<RedirectSummary> {
+    const fromPaths = new Set(from.map((f) => f.path));
+    const sources = new Map<string, TFile>();
+    for (const list of findReferences(app, from).values()) {
+        for (const source of list) {
+            // The kept note would link to itself, and the others are about to go
+            if (source !== to && !fromPaths.has(source.path)) sources.set(source.path, source);
+        }
+    }
+
+    const summary: RedirectSummary = { notes: [], links: 0 };
+    for (const source of sources.values()) {
+        const cache = app.metadataCache.getFileCache(source);
+        const references = [...(cache?.links || []), ...(cache?.embeds || [])]
+            .filter((ref) => {
+                const target = app.metadataCache.getFirstLinkpathDest(parseLinktext(ref.link).path, source.path);
+                return target !== null && fromPaths.has(target.path);
+            })
+            // Last first, so earlier offsets stay valid while splicing
+            .sort((a, b) => b.position.start.offset - a.position.start.offset);
+        if (references.length === 0) continue;
+
+        const linktext = app.metadataCache.fileToLinktext(to, source.path, true);
+        const fullLinktext = app.metadataCache.fileToLinktext(to, source.path, false);
+        let changed = 0;
+        await app.vault.process(source, (data) => {
+            changed = 0;
+            for (const ref of references) {
+                const { start, end } = ref.position;
+                if (data.slice(start.offset, end.offset) !== ref.original) continue;
+                const replacement = retargetLink(ref.original, linktext, fullLinktext);
+                if (replacement === null) continue;
+                data = data.slice(0, start.offset) + replacement + data.slice(end.offset);
+                changed++;
+            }
+            return data;
+        });
+
+        if (changed > 0) {
+            summary.notes.push(source);
+            summary.links += changed;
+        }
+    }
+    return summary;
+}
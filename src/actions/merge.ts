@@ -0,0 +1,179 @@
+import { App, TFile, getFrontMatterInfo } from "obsidian";
+import { extractBody } from "src/similarity";
+import { writeFrontmatter } from "./frontmatter";
+import { RedirectSummary, redirectLinks } from "./links";
+
+/**
+ * How the merged-away notes' bodies are combined with the canonical one:
+ *   - "append":     each note's whole body under a heading named after it
+ *   - "interleave": sections with the same heading are brought together,
+ *                   each note's part under a subheading named after it
+ */
+export type MergeLayout = "append" | "interleave";
+
+/** A note's body (frontmatter stripped) as read for a merge. */
+export interface MergeSource {
+    file: TFile;
+    body: string;
+}
+
+export interface MergeOptions {
+    canonical: TFile;
+    /** Notes merged into the canonical one, then trashed. */
+    others: TFile[];
+    layout: MergeLayout;
+    /** The canonical note's frontmatter after the merge. */
+    frontmatter: Record<string, unknown>;
+}
+
+/** What `mergeNotes` changed. */
+export interface MergeSummary extends RedirectSummary {
+    /** Merged-away notes moved to trash. */
+    trashed: number;
+}
+
+interface Section {
+    /** Normalized heading text; "" for the text before the first heading. */
+    key: string;
+    /** Heading level, 0 for the text before the first heading. */
+    level: number;
+    heading: string | null;
+    content: string;
+}
+
+/** A section of the merged text: the canonical note's part plus what the others add. */
+interface MergedSection {
+    section: Section;
+    additions: { file: TFile; content: string }[];
+}
+
+export async function readMergeSources(app: App, files: TFile[]): Promise<MergeSource[]> {
+    const sources: MergeSource[] = [];
+    for (const file of files) {
+        const content = await app.vault.read(file);
+        const frontmatterEnd = app.metadataCache.getFileCache(file)?.frontmatterPosition?.end.offset;
+        sources.push({ file, body: extractBody(content, frontmatterEnd) });
+    }
+    return sources;
+}
+
+/** Split a body at its headings, ignoring `#` lines inside code fences. */
+function splitSections(body: string): Section[] {
+    const sections: Section[] = [{ key: "", level: 0, heading: null, content: "" }];
+    const lines: string[] = [];
+    let inFence = false;
+
+    const flush = () => {
+        sections[sections.length - 1].content = lines.join("\n").trim();
+        lines.length = 0;
+    };
+
+    for (const line of body.split("\n")) {
+        if (/^\s*(```|~~~)/.test(line)) inFence = !inFence;
+        const heading = inFence ? null : line.match(/^(#{1,6})\s+(.*?)\s*#*\s*$/);
+        if (heading) {
+            flush();
+            sections.push({
+                key: heading[2].toLowerCase(),
+                level: heading[1].length,
+                heading: line,
+                content: "",
+            });
+        } else {
+            lines.push(line);
+        }
+    }
+    flush();
+    return sections;
+}
+
+/** Heading naming the note a block came from, one level below `level`. */
+function sourceHeading(file: TFile, level: number): string {
+    return `${"#".repeat(Math.min(Math.max(level, 1) + 1, 6))} ${file.basename}`;
+}
+
+function sameText(a: string, b: string): boolean {
+    return a.replace(/\s+/g, " ").trim() === b.replace(/\s+/g, " ").trim();
+}
+
+/**
+ * Combine the bodies of `sources`, the first being the canonical note.
+ * Blocks identical to what the merged text already has are left out, so
+ * merging true copies adds nothing.
+ */
+export function mergeBodies(sources: MergeSource[], layout: MergeLayout): string {
+    const [canonical, ...others] = sources;
+
+    if (layout === "append") {
+        const parts = [canonical.body];
+        for (const source of others) {
+            if (!source.body || parts.some((p) => sameText(p, source.body))) continue;
+            parts.push(`${sourceHeading(source.file, 1)}\n\n${source.body}`);
+        }
+        return parts.filter(Boolean).join("\n\n");
+    }
+
+    // Canonical sections in order, then sections only the other notes have
+    const merged: MergedSection[] = [];
+    const byKey = new Map<string, MergedSection>();
+    for (const section of splitSections(canonical.body)) {
+        const entry: MergedSection = { section, additions: [] };
+        merged.push(entry);
+        if (!byKey.has(section.key)) byKey.set(section.key, entry);
+    }
+    for (const source of others) {
+        for (const section of splitSections(source.body)) {
+            let entry = byKey.get(section.key);
+            if (!entry) {
+                entry = { section: { ...section, content: "" }, additions: [] };
+                merged.push(entry);
+                byKey.set(section.key, entry);
+            }
+            const existing = [entry.section.content, ...entry.additions.map((a) => a.content)];
+            if (!section.content || existing.some((c) => sameText(c, section.content))) continue;
+            entry.additions.push({ file: source.file, content: section.content });
+        }
+    }
+
+    const parts: string[] = [];
+    for (const { section, additions } of merged) {
+        if (section.heading) parts.push(section.heading);
+        if (section.content) parts.push(section.content);
+        for (const addition of additions) {
+            parts.push(sourceHeading(addition.file, section.level), addition.content);
+        }
+    }
+    return parts.join("\n\n");
+}
+
+/**
+ * Merge `others` into `canonical`: links to them are repointed to the
+ * canonical note, their bodies are combined into it with `layout`, its
+ * frontmatter is set to `frontmatter`, and they are moved to trash.
+ *
+ * Links are redirected first, so links between the merged notes already
+ * point at the canonical note in the combined text.  The bodies are read
+ * again after that, which means the result can differ from a preview in
+ * those links only.
+ */
+export async function mergeNotes(app: App, options: MergeOptions): Promise<MergeSummary> {
+    const { canonical, others, layout, frontmatter } = options;
+
+    const redirected = await redirectLinks(app, others, canonical);
+
+    const body = mergeBodies(await readMergeSources(app, [canonical, ...others]), layout);
+    await app.vault.process(canonical, (data) => {
+        const info = getFrontMatterInfo(data);
+        return (info.exists ? data.slice(0, info.contentStart) : "") + body + "\n";
+    });
+    if (Object.keys(frontmatter).length > 0) {
+        await writeFrontmatter(app, canonical, frontmatter);
+    }
+
+    let trashed = 0;
+    for (const file of others) {
+        await app.fileManager.trashFile(file);
+        trashed++;
+    }
+    return { ...redirected, trashed };
+}
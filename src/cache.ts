@@ -2,13 +2,46 @@ import { App, TFile } from "obsidian";
 import type DuplicateReviewerPlugin from "src/main";
 import {
     CacheEntry,
+    DuplicateCandidate,
     DuplicateGroup,
     DuplicateReviewerSettings,
+    FileSignature,
+    PreviousScan,
+    ScanMode,
+    ScanResult,
+    SerializedCandidate,
     SerializedDuplicateGroup,
 } from "src/types";
+import { getStrategyThreshold } from "src/strategies/registry";
+import { buildGroup, groupId } from "src/scanner";
 
 const CACHE_KEY = "duplicateCache";
 
+function serializeCandidate({ file1, file2, ...scores }: DuplicateCandidate): SerializedCandidate {
+    return { path1: file1.path, path2: file2.path, ...scores };
+}
+
+/** Entries are keyed per scan mode so title and content scans of one folder coexist. */
+function entryKey(mode: ScanMode, folderPath: string): string {
+    return `${mode}:${folderPath}`;
+}
+
+/** Enabled rewrite rules in order, as a comparable string. */
+function titleRulesFingerprint(settings: DuplicateReviewerSettings): string {
+    return JSON.stringify(settings.titleRewriteRules.filter((r) => r.enabled));
+}
+
+/** Enabled strategies and their effective thresholds, as a comparable string. */
+function strategyFingerprint(settings: DuplicateReviewerSettings): string {
+    const enabled = [...settings.enabledStrategies].sort();
+    return JSON.stringify(enabled.map((id) => [id, getStrategyThreshold(settings, id)]));
+}
+
+/** Identifier properties for metadata matching, as a comparable string. */
+function identifierKeysFingerprint(settings: DuplicateReviewerSettings): string {
+    return JSON.stringify(settings.metadataIdentifierKeys);
+}
+
 export class CacheManager {
     private entries: Map<string, CacheEntry> = new Map();
     dirtyPaths: Set<string> = new Set();
@@ -20,8 +53,14 @@ export class CacheManager {
     async load(): Promise<void> {
         const data = await this.plugin.loadData();
         if (data && data[CACHE_KEY] && typeof data[CACHE_KEY] === "object") {
-            for (const [key, value] of Object.entries(data[CACHE_KEY])) {
-                this.entries.set(key, value as CacheEntry);
+            for (const value of Object.values(data[CACHE_KEY])) {
+                const entry = value as CacheEntry;
+                // Entries written before scan modes existed are title scans
+                if (!entry.mode) entry.mode = "title";
+                for (const g of entry.groups) {
+                    if (!g.mode) g.mode = entry.mode;
+                }
+                this.entries.set(entryKey(entry.mode, entry.folderPath), entry);
             }
         }
     }
@@ -46,15 +85,7 @@ export class CacheManager {
      */
     isValid(entry: CacheEntry, currentFiles: TFile[], settings: DuplicateReviewerSettings): boolean {
         // Only invalidate when a dirty path actually falls inside this entry's folder
-        if (this.dirtyPaths.size > 0) {
-            if (entry.folderPath === "/") {
-                return false; // root covers everything
-            }
-            const prefix = entry.folderPath + "/";
-            for (const dirtyPath of this.dirtyPaths) {
-                if (dirtyPath.startsWith(prefix)) return false;
-            }
-        }
+        if (this.dirtyPathsIn(entry.folderPath).length > 0) return false;
 
         // File-count + mtime fingerprint
         if (currentFiles.length !== entry.fileCount) return false;
@@ -65,12 +96,30 @@ export class CacheManager {
         }
         if (maxMtime !== entry.maxMtime) return false;
 
-        // Settings fingerprint
+        return this.settingsMatch(entry, settings);
+    }
+
+    /** True if the entry was computed with settings equivalent to the current ones. */
+    private settingsMatch(entry: CacheEntry, settings: DuplicateReviewerSettings): boolean {
         if (
-            entry.settings.titleThreshold !== settings.titleSimilarityThreshold ||
+            entry.settings.strategies !== strategyFingerprint(settings) ||
+            entry.settings.titleRules !== titleRulesFingerprint(settings) ||
+            entry.settings.foldDiacritics !== settings.foldDiacritics ||
+            entry.settings.titleWeighting !== settings.titleWeighting ||
+            entry.settings.pruneCommonTitleWords !== settings.pruneCommonTitleWords ||
+            entry.settings.matchAliases !== settings.matchAliases ||
+            entry.settings.clusterLinkage !== settings.clusterLinkage ||
+            entry.settings.clusterMinAverageScore !== settings.clusterMinAverageScore ||
             entry.settings.enableContent !== settings.enableContentSimilarity ||
             entry.settings.contentThreshold !== settings.contentSimilarityThreshold ||
-            entry.settings.contentChars !== settings.contentCharsToAnalyze
+            entry.settings.contentMode !== settings.contentComparisonMode ||
+            entry.settings.contentChars !== settings.contentCharsToAnalyze ||
+            entry.settings.dropCodeBlocks !== settings.dropCodeBlocks ||
+            entry.settings.dropEmbeds !== settings.dropEmbeds ||
+            entry.settings.shingleSize !== settings.shingleSize ||
+            entry.settings.minHashBands !== settings.minHashBands ||
+            entry.settings.minHashRows !== settings.minHashRows ||
+            entry.settings.identifierKeys !== identifierKeysFingerprint(settings)
         ) {
             return false;
         }
@@ -78,55 +127,143 @@ export class CacheManager {
         return true;
     }
 
+    /** Dirty paths inside `folderPath` ("/" covers everything). */
+    private dirtyPathsIn(folderPath: string): string[] {
+        if (folderPath === "/") return Array.from(this.dirtyPaths);
+        const prefix = folderPath + "/";
+        return Array.from(this.dirtyPaths).filter((path) => path.startsWith(prefix));
+    }
+
     // ── read / write ─────────────────────────────────────────────────────────
 
     /**
      * Store a scan result.  Computes the staleness fingerprint from the live
      * file list so we can detect changes on the next access.
      */
-    put(folderPath: string, files: TFile[], groups: DuplicateGroup[], settings: DuplicateReviewerSettings): void {
+    put(
+        mode: ScanMode,
+        folderPath: string,
+        files: TFile[],
+        result: ScanResult,
+        settings: DuplicateReviewerSettings
+    ): void {
+        const { groups } = result;
         let maxMtime = 0;
+        const fileMtimes: Record<string, number> = {};
         for (const f of files) {
             if (f.stat.mtime > maxMtime) maxMtime = f.stat.mtime;
+            fileMtimes[f.path] = f.stat.mtime;
         }
 
         const serializedGroups: SerializedDuplicateGroup[] = groups.map((g) => ({
+            mode: g.mode,
             normalizedTitle: g.normalizedTitle,
             originalTitles: Array.from(g.originalTitles),
+            representativeTitle: g.representativeTitle,
             filePaths: g.files.map((f) => f.path),
+            candidates: g.candidates.map(serializeCandidate),
         }));
 
         const entry: CacheEntry = {
             folderPath,
+            mode,
             scanTimestamp: Date.now(),
             fileCount: files.length,
             maxMtime,
             groups: serializedGroups,
+            pairs: result.pairs.map(serializeCandidate),
+            fileMtimes,
+            signatures: Object.fromEntries(result.signatures),
             settings: {
-                titleThreshold: settings.titleSimilarityThreshold,
+                strategies: strategyFingerprint(settings),
+                titleRules: titleRulesFingerprint(settings),
+                foldDiacritics: settings.foldDiacritics,
+                titleWeighting: settings.titleWeighting,
+                pruneCommonTitleWords: settings.pruneCommonTitleWords,
+                matchAliases: settings.matchAliases,
+                clusterLinkage: settings.clusterLinkage,
+                clusterMinAverageScore: settings.clusterMinAverageScore,
                 enableContent: settings.enableContentSimilarity,
                 contentThreshold: settings.contentSimilarityThreshold,
+                contentMode: settings.contentComparisonMode,
                 contentChars: settings.contentCharsToAnalyze,
+                dropCodeBlocks: settings.dropCodeBlocks,
+                dropEmbeds: settings.dropEmbeds,
+                shingleSize: settings.shingleSize,
+                minHashBands: settings.minHashBands,
+                minHashRows: settings.minHashRows,
+                identifierKeys: identifierKeysFingerprint(settings),
             },
         };
 
-        this.entries.set(folderPath, entry);
+        this.entries.set(entryKey(mode, folderPath), entry);
     }
 
     /**
-     * Retrieve cached groups for a folder.  Returns null if missing or stale.
-     * Caller must pass the same file list used for validation.
+     * Retrieve cached groups for a folder and scan mode.  Returns null if
+     * missing or stale.  Caller must pass the same file list used for validation.
      */
-    get(folderPath: string, currentFiles: TFile[], settings: DuplicateReviewerSettings): DuplicateGroup[] | null {
-        const entry = this.entries.get(folderPath);
+    get(
+        mode: ScanMode,
+        folderPath: string,
+        currentFiles: TFile[],
+        settings: DuplicateReviewerSettings
+    ): DuplicateGroup[] | null {
+        const key = entryKey(mode, folderPath);
+        const entry = this.entries.get(key);
         if (!entry) return null;
-        if (!this.isValid(entry, currentFiles, settings)) {
-            this.entries.delete(folderPath);
+        if (!this.settingsMatch(entry, settings)) {
+            this.entries.delete(key);
             return null;
         }
+        // Stale entries stay around so the rescan can reuse their unchanged parts
+        if (!this.isValid(entry, currentFiles, settings)) return null;
         return this.deserialize(entry);
     }
 
+    /**
+     * What a rescan of a stale entry can reuse: pairs and signatures of files
+     * whose mtime hasn't moved and that weren't reported dirty.  Null when
+     * there is no compatible entry, so the scan runs in full.
+     */
+    getPrevious(
+        mode: ScanMode,
+        folderPath: string,
+        currentFiles: TFile[],
+        settings: DuplicateReviewerSettings
+    ): PreviousScan | null {
+        const entry = this.entries.get(entryKey(mode, folderPath));
+        if (!entry || !entry.pairs || !entry.fileMtimes || !this.settingsMatch(entry, settings)) {
+            return null;
+        }
+
+        const changed = new Set(this.dirtyPathsIn(folderPath));
+        for (const f of currentFiles) {
+            if (entry.fileMtimes[f.path] !== f.stat.mtime) changed.add(f.path);
+        }
+
+        // Unchanged files still in the scanned set, by path
+        const unchanged = new Map<string, TFile>();
+        for (const f of currentFiles) {
+            if (!changed.has(f.path)) unchanged.set(f.path, f);
+        }
+
+        const pairs: DuplicateCandidate[] = [];
+        for (const { path1, path2, ...scores } of entry.pairs) {
+            const file1 = unchanged.get(path1);
+            const file2 = unchanged.get(path2);
+            if (file1 && file2) pairs.push({ file1, file2, ...scores });
+        }
+
+        const signatures = new Map<string, FileSignature>();
+        const staleSignatures = new Map<string, FileSignature>();
+        for (const [path, signature] of Object.entries(entry.signatures || {})) {
+            (unchanged.has(path) ? signatures : staleSignatures).set(path, signature);
+        }
+
+        return { changed, pairs, signatures, staleSignatures };
+    }
+
     /** Number of live cache entries. */
     get size(): number {
         return this.entries.size;
@@ -143,17 +280,15 @@ export class CacheManager {
         return latest;
     }
 
-    /** Return the folder-path key of the most recently built entry, or null. */
-    getMostRecentFolderPath(): string | null {
-        let latestTimestamp = -1;
-        let latestKey: string | null = null;
-        for (const [key, entry] of this.entries) {
-            if (entry.scanTimestamp > latestTimestamp) {
-                latestTimestamp = entry.scanTimestamp;
-                latestKey = key;
+    /** Return the folder path and mode of the most recently built entry, or null. */
+    getMostRecentEntry(): { folderPath: string; mode: ScanMode } | null {
+        let latest: CacheEntry | null = null;
+        for (const entry of this.entries.values()) {
+            if (latest === null || entry.scanTimestamp > latest.scanTimestamp) {
+                latest = entry;
             }
         }
-        return latestKey;
+        return latest ? { folderPath: latest.folderPath, mode: latest.mode } : null;
     }
 
     /** Remove only dirty paths that fall within the given folder. */
@@ -190,11 +325,28 @@ export class CacheManager {
             // Drop groups whose files have all been deleted
             if (files.length < 2) continue;
 
+            const candidates: DuplicateCandidate[] = [];
+            for (const { path1, path2, ...scores } of sg.candidates || []) {
+                const file1 = files.find((f) => f.path === path1);
+                const file2 = files.find((f) => f.path === path2);
+                if (file1 && file2) candidates.push({ file1, file2, ...scores });
+            }
+
+            if (candidates.length > 0) {
+                groups.push({ ...buildGroup(sg.mode, files, candidates), normalizedTitle: sg.normalizedTitle });
+                continue;
+            }
+
+            // Older entries kept no pair scores
             groups.push({
+                id: groupId(files),
+                mode: sg.mode,
                 normalizedTitle: sg.normalizedTitle,
                 originalTitles: new Set(sg.originalTitles),
+                representativeTitle: sg.representativeTitle ?? sg.originalTitles[0] ?? "",
                 files,
-                candidates: [], // not persisted; not needed for display
+                candidates: [],
+                pairScores: new Map(),
             });
         }
 
@@ -7,38 +7,93 @@ import {
     WorkspaceLeaf,
 } from "obsidian";
 
-import { DuplicateReviewerSettings, DEFAULT_SETTINGS, DuplicateGroup, ScanProgress } from "./types";
+import {
+    DuplicateReviewerSettings,
+    DEFAULT_SETTINGS,
+    DuplicateGroup,
+    ScanMode,
+    ScanProgress,
+    ScanResult,
+    SimilarityStrategy,
+} from "./types";
 import { DuplicateReviewerSettingTab } from "./settings";
 import { DuplicateReviewView, DUPLICATE_REVIEW_VIEW_TYPE } from "./views/DuplicateReviewView";
+import { DuplicateDiffView, DUPLICATE_DIFF_VIEW_TYPE } from "./views/DuplicateDiffView";
 import { FolderSelectModal } from "./modals/FolderSelectModal";
 import { PatternSelectModal } from "./modals/PatternSelectModal";
 import {
     scanForDuplicates,
+    scanForExactDuplicates,
+    scanForNearDuplicates,
+    scanForCrossFolderDuplicates,
+    scanForNoteDuplicates,
+    scanForAttachmentDuplicates,
     collectMarkdownFiles,
     findByPattern,
-    findTitleDuplicates,
+    findStrategyCandidates,
     groupDuplicates,
+    buildGroup,
     buildExclusionMap,
     filterExcludedCandidates,
 } from "./scanner";
 import { CacheManager } from "./cache";
+import { DuplicateWatcher } from "./watcher";
+import { RedirectSummary, redirectLinks } from "./actions/links";
+import { ResolveAttachmentsModal } from "./modals/ResolveAttachmentsModal";
+import { MergeNotesModal } from "./modals/MergeNotesModal";
+import { DeleteRedirectModal } from "./modals/DeleteRedirectModal";
+import { FrontmatterModal } from "./modals/FrontmatterModal";
+import { writeFrontmatter } from "./actions/frontmatter";
+import { AutoResolveModal } from "./modals/AutoResolveModal";
+import { proposeKeepers } from "./actions/keepRules";
+import { mergeNotes, readMergeSources } from "./actions/merge";
+import { registerStrategy } from "./strategies/registry";
+import { registerBuiltinStrategies } from "./strategies/builtin";
+import { setTitleRewriteRules, setTokenizerOptions } from "./similarity";
+import { setWorkerConfig, terminateWorker } from "./worker/client";
 
 // Keys that live at the top level of data.json alongside the cache
 const SETTINGS_KEYS: (keyof DuplicateReviewerSettings)[] = [
-    "titleSimilarityThreshold",
+    "enabledStrategies",
+    "strategyThresholds",
+    "titleRewriteRules",
+    "foldDiacritics",
+    "titleWeighting",
+    "pruneCommonTitleWords",
+    "matchAliases",
+    "clusterLinkage",
+    "clusterMinAverageScore",
     "enableContentSimilarity",
     "contentSimilarityThreshold",
+    "contentComparisonMode",
     "contentCharsToAnalyze",
+    "dropCodeBlocks",
+    "dropEmbeds",
+    "shingleSize",
+    "minHashBands",
+    "minHashRows",
     "ignoredFolders",
     "commonPatterns",
     "maxComparisonPanes",
+    "warnOnDuplicateTitle",
+    "metadataIdentifierKeys",
+    "keepRules",
 ];
 
+// Rewritten notes named in the delete-and-redirect summary before "…and N more"
+const MAX_LISTED_REDIRECTS = 10;
+// How long that summary stays up
+const REDIRECT_NOTICE_DURATION_MS = 10000;
+
+// Pre-strategy title settings, migrated into strategyThresholds on load
+const LEGACY_SETTINGS_KEYS = ["titleSimilarityThreshold", "titleMatchMode", "fuzzyTitleThreshold"];
+
 export default class DuplicateReviewerPlugin extends Plugin {
     settings: DuplicateReviewerSettings;
     cacheManager: CacheManager;
+    private duplicateWatcher: DuplicateWatcher;
     private duplicateReviewView: DuplicateReviewView;
-    // One controller per in-flight scan, keyed by folder path
+    // One controller per in-flight scan, keyed by scan mode + folder path
     private scanControllers: Map<string, AbortController> = new Map();
 
     // ── dismissal state ──────────────────────────────────────────────────────
@@ -46,6 +101,7 @@ export default class DuplicateReviewerPlugin extends Plugin {
     private dismissedSet: Set<string> = new Set();    // O(1) lookup (paths joined by \0)
 
     async onload(): Promise<void> {
+        registerBuiltinStrategies();
         await this.loadSettings();
 
         // Initialise cache (load persisted entries from data.json)
@@ -57,6 +113,7 @@ export default class DuplicateReviewerPlugin extends Plugin {
             DUPLICATE_REVIEW_VIEW_TYPE,
             (leaf) => (this.duplicateReviewView = new DuplicateReviewView(leaf, this))
         );
+        this.registerView(DUPLICATE_DIFF_VIEW_TYPE, (leaf) => new DuplicateDiffView(leaf));
 
         // Add settings tab
         this.addSettingTab(new DuplicateReviewerSettingTab(this.app, this));
@@ -79,6 +136,22 @@ export default class DuplicateReviewerPlugin extends Plugin {
             })
         );
 
+        // ── duplicate warnings on create / rename ──────────────────────────
+        // Registered once the layout is ready: the vault fires "create" for
+        // every existing file while it loads.
+        this.duplicateWatcher = new DuplicateWatcher(this, this.app);
+        this.app.workspace.onLayoutReady(() => {
+            this.registerEvent(this.app.vault.on("create", (file) => {
+                if (file instanceof TFile) this.duplicateWatcher.onCreate(file);
+            }));
+            this.registerEvent(this.app.vault.on("delete", (file) => {
+                this.duplicateWatcher.onDelete(file.path);
+            }));
+            this.registerEvent(this.app.vault.on("rename", (file, oldPath) => {
+                if (file instanceof TFile) this.duplicateWatcher.onRename(file, oldPath);
+            }));
+        });
+
         // ── context menu ───────────────────────────────────────────────────
         this.registerEvent(
             this.app.workspace.on("file-menu", (menu, fileish: TAbstractFile) => {
@@ -90,6 +163,42 @@ export default class DuplicateReviewerPlugin extends Plugin {
                                 this.startDuplicateReview(fileish);
                             });
                     });
+                    menu.addItem((item) => {
+                        item.setTitle("Find identical notes in folder")
+                            .setIcon("copy")
+                            .onClick(() => {
+                                this.startDuplicateReview(fileish, "exact-content");
+                            });
+                    });
+                    menu.addItem((item) => {
+                        item.setTitle("Find notes with similar content in folder")
+                            .setIcon("file-search")
+                            .onClick(() => {
+                                this.startDuplicateReview(fileish, "near-content");
+                            });
+                    });
+                    menu.addItem((item) => {
+                        item.setTitle("Find duplicate attachments in folder")
+                            .setIcon("image")
+                            .onClick(() => {
+                                this.startAttachmentReview(fileish);
+                            });
+                    });
+                    menu.addItem((item) => {
+                        item.setTitle("Compare with another folder")
+                            .setIcon("folder-sync")
+                            .onClick(() => {
+                                this.chooseComparisonFolder(fileish);
+                            });
+                    });
+                } else if (fileish instanceof TFile && fileish.extension === "md") {
+                    menu.addItem((item) => {
+                        item.setTitle("Find duplicates of this note")
+                            .setIcon("files")
+                            .onClick(() => {
+                                this.startNoteReview(fileish);
+                            });
+                    });
                 }
             })
         );
@@ -105,6 +214,68 @@ export default class DuplicateReviewerPlugin extends Plugin {
             },
         });
 
+        this.addCommand({
+            id: "find-identical-notes-in-vault",
+            name: "Find notes with identical content",
+            callback: () => {
+                new FolderSelectModal(this.app, this.settings, (folder) => {
+                    this.startDuplicateReview(folder, "exact-content");
+                }).open();
+            },
+        });
+
+        this.addCommand({
+            id: "find-similar-content-in-vault",
+            name: "Find notes with similar content",
+            callback: () => {
+                new FolderSelectModal(this.app, this.settings, (folder) => {
+                    this.startDuplicateReview(folder, "near-content");
+                }).open();
+            },
+        });
+
+        this.addCommand({
+            id: "find-duplicate-attachments",
+            name: "Find duplicate attachments",
+            callback: () => {
+                new FolderSelectModal(this.app, this.settings, (folder) => {
+                    this.startAttachmentReview(folder);
+                }, "Select a folder to scan for duplicate attachments...").open();
+            },
+        });
+
+        this.addCommand({
+            id: "auto-resolve-duplicate-groups",
+            name: "Resolve duplicate groups with keep rules",
+            checkCallback: (checking) => {
+                const groups = this.duplicateReviewView?.getGroups() ?? [];
+                if (groups.length === 0) return false;
+                if (!checking) this.autoResolveGroups(groups);
+                return true;
+            },
+        });
+
+        this.addCommand({
+            id: "find-duplicates-of-current-note",
+            name: "Find duplicates of current note",
+            editorCheckCallback: (checking, editor, ctx) => {
+                const file = ctx.file;
+                if (!file) return false;
+                if (!checking) this.startNoteReview(file);
+                return true;
+            },
+        });
+
+        this.addCommand({
+            id: "compare-two-folders",
+            name: "Compare two folders",
+            callback: () => {
+                new FolderSelectModal(this.app, this.settings, (source) => {
+                    this.chooseComparisonFolder(source);
+                }, "Select the folder to check (e.g. Inbox)...").open();
+            },
+        });
+
         this.addCommand({
             id: "find-duplicates-by-pattern",
             name: "Find duplicates by pattern",
@@ -160,7 +331,9 @@ export default class DuplicateReviewerPlugin extends Plugin {
         for (const ctrl of this.scanControllers.values()) {
             ctrl.abort();
         }
+        terminateWorker();
         this.app.workspace.detachLeavesOfType(DUPLICATE_REVIEW_VIEW_TYPE);
+        this.app.workspace.detachLeavesOfType(DUPLICATE_DIFF_VIEW_TYPE);
     }
 
     // ── settings I/O (coexists with duplicateCache in data.json) ──────────
@@ -178,16 +351,63 @@ export default class DuplicateReviewerPlugin extends Plugin {
             }
         }
         this.settings = Object.assign({}, DEFAULT_SETTINGS, partial);
+        this.settings.strategyThresholds = { ...this.settings.strategyThresholds };
+        // Settings edit these in place, so they must not be the defaults' own objects
+        this.settings.titleRewriteRules = this.settings.titleRewriteRules.map((rule) => ({ ...rule }));
+        this.settings.metadataIdentifierKeys = [...this.settings.metadataIdentifierKeys];
+        this.settings.keepRules = this.settings.keepRules.map((rule) => ({ ...rule }));
+        if (data) this.migrateLegacySettings(data);
+        this.applySimilaritySettings();
         this.rebuildDismissalSet();
     }
 
+    /** Push settings that the pure similarity functions read into their modules. */
+    applySimilaritySettings(): void {
+        setTitleRewriteRules(this.settings.titleRewriteRules);
+        setTokenizerOptions({ foldDiacritics: this.settings.foldDiacritics });
+        setWorkerConfig({
+            titleRewriteRules: this.settings.titleRewriteRules,
+            foldDiacritics: this.settings.foldDiacritics,
+        });
+    }
+
+    /** Fold the old single-title-matcher settings into the strategy settings. */
+    private migrateLegacySettings(data: Record<string, unknown>): void {
+        const thresholds = this.settings.strategyThresholds;
+        if (typeof data["titleSimilarityThreshold"] === "number" && !("title" in thresholds)) {
+            thresholds["title"] = data["titleSimilarityThreshold"];
+        }
+        if (typeof data["fuzzyTitleThreshold"] === "number" && !("fuzzy-title" in thresholds)) {
+            thresholds["fuzzy-title"] = data["fuzzyTitleThreshold"];
+        }
+        if (data["titleMatchMode"] === "fuzzy" && !("enabledStrategies" in data)) {
+            this.settings.enabledStrategies = ["fuzzy-title"];
+        }
+    }
+
     async saveSettings(): Promise<void> {
         // Merge settings into existing data so we don't clobber the cache key
         const data = (await this.loadData()) || {};
         for (const key of SETTINGS_KEYS) {
             data[key] = this.settings[key];
         }
+        for (const key of LEGACY_SETTINGS_KEYS) {
+            delete data[key];
+        }
         await this.saveData(data);
+        this.applySimilaritySettings();
+        // Title rules or ignored folders may have changed
+        this.duplicateWatcher?.invalidate();
+    }
+
+    // ── similarity strategies ───────────────────────────────────────────────
+
+    /**
+     * Public hook for other plugins to add a custom matcher.  The strategy
+     * appears in the settings tab and runs once the user enables it.
+     */
+    public registerSimilarityStrategy(strategy: SimilarityStrategy): void {
+        registerStrategy(strategy);
     }
 
     // ── dismissal helpers ───────────────────────────────────────────────────
@@ -265,8 +485,9 @@ export default class DuplicateReviewerPlugin extends Plugin {
     async loadMostRecentCache(): Promise<void> {
         if (!this.duplicateReviewView || this.duplicateReviewView.hasData()) return;
 
-        const recentPath = this.cacheManager.getMostRecentFolderPath();
-        if (recentPath === null) return;
+        const recent = this.cacheManager.getMostRecentEntry();
+        if (recent === null) return;
+        const recentPath = recent.folderPath;
 
         const folder = recentPath === "/"
             ? this.app.vault.getRoot()
@@ -274,16 +495,47 @@ export default class DuplicateReviewerPlugin extends Plugin {
         if (!folder) return;
 
         const files = collectMarkdownFiles(this.app, folder, this.settings.ignoredFolders);
-        const cached = this.cacheManager.get(recentPath, files, this.settings);
+        const cached = this.cacheManager.get(recent.mode, recentPath, files, this.settings);
         if (!cached) return;
 
         const displayPath = recentPath === "/" ? "Entire vault" : recentPath;
         this.duplicateReviewView.setGroups(this.filterDismissedGroups(cached), displayPath, true);
     }
 
+    // ── scanning ───────────────────────────────────────────────────────────
+
+    /**
+     * Run the scan pipeline for the given mode, reusing whatever the stale
+     * cache entry for `files` still holds for unchanged notes.
+     */
+    private runScan(
+        folder: TFolder,
+        mode: ScanMode,
+        files: TFile[],
+        signal: AbortSignal,
+        onProgress: (progress: ScanProgress) => void
+    ): Promise<ScanResult> {
+        const previous = this.cacheManager.getPrevious(mode, folder.path, files, this.settings);
+        if (mode === "exact-content") {
+            return scanForExactDuplicates(this.app, folder, this.settings, signal, onProgress, previous);
+        }
+        if (mode === "near-content") {
+            return scanForNearDuplicates(this.app, folder, this.settings, signal, onProgress, previous);
+        }
+        return scanForDuplicates(
+            this.app,
+            folder,
+            this.settings,
+            this.settings.enableContentSimilarity,
+            signal,
+            onProgress,
+            previous
+        );
+    }
+
     // ── duplicate review (cache-aware) ─────────────────────────────────────
 
-    async startDuplicateReview(folder: TFolder): Promise<void> {
+    async startDuplicateReview(folder: TFolder, mode: ScanMode = "title"): Promise<void> {
         await this.activateView();
 
         const folderPath = folder.path === "/" ? "Entire vault" : folder.path;
@@ -296,7 +548,7 @@ export default class DuplicateReviewerPlugin extends Plugin {
 
         // ── cache hit? ─────────────────────────────────────────────────────
         const files = collectMarkdownFiles(this.app, folder, this.settings.ignoredFolders);
-        const cached = this.cacheManager.get(cacheKey, files, this.settings);
+        const cached = this.cacheManager.get(mode, cacheKey, files, this.settings);
         if (cached) {
             const visible = this.filterDismissedGroups(cached);
             if (this.duplicateReviewView) {
@@ -313,10 +565,11 @@ export default class DuplicateReviewerPlugin extends Plugin {
 
         // ── cache miss — run scan ──────────────────────────────────────────
         // Abort any previous scan for the same folder
-        const prev = this.scanControllers.get(cacheKey);
+        const controllerKey = `${mode}:${cacheKey}`;
+        const prev = this.scanControllers.get(controllerKey);
         if (prev) prev.abort();
         const controller = new AbortController();
-        this.scanControllers.set(cacheKey, controller);
+        this.scanControllers.set(controllerKey, controller);
 
         new Notice(`Scanning for duplicates in ${folderPath}...`);
 
@@ -327,19 +580,13 @@ export default class DuplicateReviewerPlugin extends Plugin {
                 }
             };
 
-            const groups = await scanForDuplicates(
-                this.app,
-                folder,
-                this.settings,
-                this.settings.enableContentSimilarity,
-                controller.signal,
-                onProgress
-            );
+            const result = await this.runScan(folder, mode, files, controller.signal, onProgress);
+            const { groups } = result;
 
             if (controller.signal.aborted) return;
 
             // Cache the result (unfiltered — dismissals are a view-layer filter)
-            this.cacheManager.put(cacheKey, files, groups, this.settings);
+            this.cacheManager.put(mode, cacheKey, files, result, this.settings);
             this.cacheManager.clearDirtyPathsForFolder(cacheKey);
             await this.cacheManager.save();
 
@@ -359,7 +606,7 @@ export default class DuplicateReviewerPlugin extends Plugin {
             new Notice(`Error scanning for duplicates: ${error.message}`);
             console.error("Duplicate scan error:", error);
         } finally {
-            this.scanControllers.delete(cacheKey);
+            this.scanControllers.delete(controllerKey);
         }
     }
 
@@ -368,12 +615,13 @@ export default class DuplicateReviewerPlugin extends Plugin {
     async buildCacheInBackground(folder: TFolder): Promise<void> {
         const folderPath = folder.path === "/" ? "Entire vault" : folder.path;
         const cacheKey = folder.path;
+        const controllerKey = `title:${cacheKey}`;
 
         // Abort any previous scan for the same folder
-        const prev = this.scanControllers.get(cacheKey);
+        const prev = this.scanControllers.get(controllerKey);
         if (prev) prev.abort();
         const controller = new AbortController();
-        this.scanControllers.set(cacheKey, controller);
+        this.scanControllers.set(controllerKey, controller);
 
         // Persistent notice that we update as progress comes in
         const notice = new Notice(`Building cache for ${folderPath}… Collecting files…`, 0);
@@ -394,14 +642,8 @@ export default class DuplicateReviewerPlugin extends Plugin {
                 }
             };
 
-            const groups = await scanForDuplicates(
-                this.app,
-                folder,
-                this.settings,
-                this.settings.enableContentSimilarity,
-                controller.signal,
-                onProgress
-            );
+            const result = await this.runScan(folder, "title", files, controller.signal, onProgress);
+            const { groups } = result;
 
             if (controller.signal.aborted) {
                 notice.hide();
@@ -409,7 +651,7 @@ export default class DuplicateReviewerPlugin extends Plugin {
             }
 
             // Persist
-            this.cacheManager.put(cacheKey, files, groups, this.settings);
+            this.cacheManager.put("title", cacheKey, files, result, this.settings);
             this.cacheManager.clearDirtyPathsForFolder(cacheKey);
             await this.cacheManager.save();
 
@@ -431,7 +673,208 @@ export default class DuplicateReviewerPlugin extends Plugin {
             new Notice(`Cache build failed: ${error.message}`);
             console.error("Cache build error:", error);
         } finally {
-            this.scanControllers.delete(cacheKey);
+            this.scanControllers.delete(controllerKey);
+        }
+    }
+
+    // ── folder comparison ──────────────────────────────────────────────────
+
+    /** Ask for the folder to compare `source` against, then run the comparison. */
+    private chooseComparisonFolder(source: TFolder): void {
+        new FolderSelectModal(this.app, this.settings, (target) => {
+            this.startFolderComparison(source, target);
+        }, `Compare ${source.path === "/" ? "the vault" : source.path} against...`).open();
+    }
+
+    /**
+     * Find notes in `source` that already exist in `target`.  Results aren't
+     * cached: the cache is keyed by a single folder.
+     */
+    async startFolderComparison(source: TFolder, target: TFolder): Promise<void> {
+        await this.activateView();
+
+        const name = (folder: TFolder) => (folder.path === "/" ? "Entire vault" : folder.path);
+        const label = `${name(source)} → ${name(target)}`;
+
+        if (this.duplicateReviewView) {
+            this.duplicateReviewView.showScanning(label);
+        }
+
+        const controllerKey = `compare:${source.path}\0${target.path}`;
+        const prev = this.scanControllers.get(controllerKey);
+        if (prev) prev.abort();
+        const controller = new AbortController();
+        this.scanControllers.set(controllerKey, controller);
+
+        new Notice(`Comparing ${label}...`);
+
+        try {
+            const onProgress = (progress: ScanProgress) => {
+                if (this.duplicateReviewView) {
+                    this.duplicateReviewView.updateProgress(progress);
+                }
+            };
+
+            const groups = await scanForCrossFolderDuplicates(
+                this.app,
+                source,
+                target,
+                this.settings,
+                this.settings.enableContentSimilarity,
+                controller.signal,
+                onProgress
+            );
+
+            if (controller.signal.aborted) return;
+
+            const visible = this.filterDismissedGroups(groups);
+            if (this.duplicateReviewView) {
+                this.duplicateReviewView.setGroups(visible, label, false);
+            }
+
+            if (visible.length === 0) {
+                new Notice(`No notes in ${name(source)} match notes in ${name(target)}.`);
+            } else {
+                new Notice(`${visible.length} notes in ${name(source)} match notes in ${name(target)}.`);
+            }
+        } catch (error) {
+            if (controller.signal.aborted) return;
+            new Notice(`Error comparing folders: ${error.message}`);
+            console.error("Folder comparison error:", error);
+        } finally {
+            this.scanControllers.delete(controllerKey);
+        }
+    }
+
+    // ── attachment review ──────────────────────────────────────────────────
+
+    /** Find byte-identical attachments in `folder` and list them with the notes that embed them. */
+    async startAttachmentReview(folder: TFolder): Promise<void> {
+        await this.activateView();
+
+        const label = `Attachments: ${folder.path === "/" ? "Entire vault" : folder.path}`;
+        if (this.duplicateReviewView) {
+            this.duplicateReviewView.showScanning(label);
+        }
+
+        const controllerKey = `attachment:${folder.path}`;
+        const prev = this.scanControllers.get(controllerKey);
+        if (prev) prev.abort();
+        const controller = new AbortController();
+        this.scanControllers.set(controllerKey, controller);
+
+        try {
+            const onProgress = (progress: ScanProgress) => {
+                if (this.duplicateReviewView) {
+                    this.duplicateReviewView.updateProgress(progress);
+                }
+            };
+
+            const groups = await scanForAttachmentDuplicates(
+                this.app, folder, this.settings, controller.signal, onProgress
+            );
+
+            if (controller.signal.aborted) return;
+
+            const visible = this.filterDismissedGroups(groups);
+            if (this.duplicateReviewView) {
+                this.duplicateReviewView.setGroups(visible, label, false);
+            }
+
+            if (visible.length === 0) {
+                new Notice("No duplicate attachments found.");
+            } else {
+                const copies = visible.reduce((sum, g) => sum + g.files.length - 1, 0);
+                new Notice(`Found ${visible.length} duplicated attachments with ${copies} extra copies.`);
+            }
+        } catch (error) {
+            if (controller.signal.aborted) return;
+            new Notice(`Error scanning attachments: ${error.message}`);
+            console.error("Attachment scan error:", error);
+        } finally {
+            this.scanControllers.delete(controllerKey);
+        }
+    }
+
+    /**
+     * Ask which copy of an attachment to keep, repoint links and embeds to
+     * it, and trash the other copies if chosen.  `onResolved` runs once the
+     * links have been rewritten.
+     */
+    resolveAttachmentGroup(group: DuplicateGroup, onResolved: () => void): void {
+        new ResolveAttachmentsModal(this.app, group, async ({ keep, copies, trashCopies }) => {
+            try {
+                const summary = await redirectLinks(this.app, copies, keep);
+                if (trashCopies) {
+                    for (const copy of copies) {
+                        await this.app.fileManager.trashFile(copy);
+                    }
+                }
+                onResolved();
+                new Notice(
+                    `Repointed ${summary.links} ${summary.links === 1 ? "link" : "links"} in ${summary.notes.length} `
+                    + `${summary.notes.length === 1 ? "note" : "notes"} to ${keep.name}`
+                    + (trashCopies ? ` and trashed ${copies.length} ${copies.length === 1 ? "copy" : "copies"}.` : ".")
+                );
+            } catch (error) {
+                new Notice(`Error resolving attachments: ${error.message}`);
+                console.error("Attachment resolve error:", error);
+            }
+        }).open();
+    }
+
+    // ── single-note review ─────────────────────────────────────────────────
+
+    /** Find notes anywhere in the vault that duplicate `file`, ranked by score. */
+    async startNoteReview(file: TFile): Promise<void> {
+        await this.activateView();
+
+        const label = `Duplicates of ${file.basename}`;
+        if (this.duplicateReviewView) {
+            this.duplicateReviewView.showScanning(label);
+        }
+
+        const controllerKey = `note:${file.path}`;
+        const prev = this.scanControllers.get(controllerKey);
+        if (prev) prev.abort();
+        const controller = new AbortController();
+        this.scanControllers.set(controllerKey, controller);
+
+        try {
+            const onProgress = (progress: ScanProgress) => {
+                if (this.duplicateReviewView) {
+                    this.duplicateReviewView.updateProgress(progress);
+                }
+            };
+
+            const groups = await scanForNoteDuplicates(
+                this.app,
+                file,
+                this.settings,
+                this.settings.enableContentSimilarity,
+                controller.signal,
+                onProgress
+            );
+
+            if (controller.signal.aborted) return;
+
+            const visible = this.filterDismissedGroups(groups);
+            if (this.duplicateReviewView) {
+                this.duplicateReviewView.setGroups(visible, label, false);
+            }
+
+            const matches = visible.length > 0 ? visible[0].files.length - 1 : 0;
+            new Notice(
+                matches === 0
+                    ? `No duplicates of "${file.basename}" found.`
+                    : `Found ${matches} possible ${matches === 1 ? "duplicate" : "duplicates"} of "${file.basename}".`
+            );
+        } catch (error) {
+            if (controller.signal.aborted) return;
+            new Notice(`Error finding duplicates of "${file.basename}": ${error.message}`);
+            console.error("Note duplicate search error:", error);
+        } finally {
+            this.scanControllers.delete(controllerKey);
         }
     }
 
@@ -456,23 +899,18 @@ export default class DuplicateReviewerPlugin extends Plugin {
             }
 
             // Pattern scans are typically small — no caching, but still async + yielding
-            let candidates = await findTitleDuplicates(
-                matchingFiles,
-                this.settings.titleSimilarityThreshold
-            );
+            let candidates = await findStrategyCandidates(this.app, matchingFiles, this.settings);
 
             // Apply YAML exclusions before grouping
             const exclusionMap = buildExclusionMap(this.app, matchingFiles);
             candidates = filterExcludedCandidates(candidates, exclusionMap);
 
-            const groups = groupDuplicates(candidates);
+            const groups = groupDuplicates(candidates, "title", this.settings);
 
             if (groups.length === 0 && matchingFiles.length > 1) {
                 groups.push({
+                    ...buildGroup("title", matchingFiles, []),
                     normalizedTitle: pattern.toLowerCase(),
-                    originalTitles: new Set(matchingFiles.map((f) => f.basename)),
-                    files: matchingFiles,
-                    candidates: [],
                 });
             }
 
@@ -488,8 +926,145 @@ export default class DuplicateReviewerPlugin extends Plugin {
         }
     }
 
+    // ── delete and redirect ────────────────────────────────────────────────
+
+    /**
+     * Ask which of `siblings` should take over `file`'s links, repoint them,
+     * trash `file`, and list the notes that were rewritten.  `onDeleted`
+     * runs once the file is in the trash.
+     */
+    deleteAndRedirect(file: TFile, siblings: TFile[], onDeleted: () => void): void {
+        new DeleteRedirectModal(this.app, file, siblings, async (target) => {
+            try {
+                const summary = await redirectLinks(this.app, [file], target);
+                await this.app.fileManager.trashFile(file);
+                onDeleted();
+                this.showRedirectSummary(file, target, summary);
+            } catch (error) {
+                new Notice(`Error deleting ${file.basename}: ${error.message}`);
+                console.error("Delete and redirect error:", error);
+            }
+        }).open();
+    }
+
+    private showRedirectSummary(file: TFile, target: TFile, summary: RedirectSummary): void {
+        const message = createFragment((frag) => {
+            frag.createDiv({
+                text: `Deleted ${file.basename}. Repointed ${summary.links} ${summary.links === 1 ? "link" : "links"} `
+                    + `in ${summary.notes.length} ${summary.notes.length === 1 ? "note" : "notes"} to ${target.basename}`
+                    + (summary.notes.length > 0 ? ":" : "."),
+            });
+            const listed = summary.notes.slice(0, MAX_LISTED_REDIRECTS);
+            for (const note of listed) frag.createDiv({ text: `• ${note.path}` });
+            if (summary.notes.length > listed.length) {
+                frag.createDiv({ text: `…and ${summary.notes.length - listed.length} more` });
+            }
+        });
+        new Notice(message, REDIRECT_NOTICE_DURATION_MS);
+    }
+
+    // ── merging ────────────────────────────────────────────────────────────
+
+    /**
+     * Preview and apply merging a group's notes into a canonical one.
+     * `onMerged` runs once the merged-away notes have been trashed.
+     */
+    async mergeGroup(group: DuplicateGroup, onMerged: () => void): Promise<void> {
+        let sources;
+        try {
+            sources = await readMergeSources(this.app, group.files);
+        } catch (error) {
+            new Notice(`Error reading notes to merge: ${error.message}`);
+            return;
+        }
+
+        new MergeNotesModal(this.app, sources, async (options) => {
+            try {
+                const summary = await mergeNotes(this.app, options);
+                onMerged();
+                new Notice(
+                    `Merged ${summary.trashed} ${summary.trashed === 1 ? "note" : "notes"} into ${options.canonical.basename} `
+                    + `and repointed ${summary.links} ${summary.links === 1 ? "link" : "links"} in ${summary.notes.length} `
+                    + `${summary.notes.length === 1 ? "note" : "notes"}.`
+                );
+            } catch (error) {
+                new Notice(`Error merging notes: ${error.message}`);
+                console.error("Merge error:", error);
+            }
+        }).open();
+    }
+
+    // ── automatic resolution ───────────────────────────────────────────────
+
+    /**
+     * Propose a file to keep in each group with the keep rules, and once the
+     * dry run is confirmed, redirect links from the others and trash them.
+     */
+    autoResolveGroups(groups: DuplicateGroup[]): void {
+        if (!this.settings.keepRules.some((r) => r.enabled)) {
+            new Notice("No keep rules are enabled. Add some under Automatic Resolution in settings.");
+            return;
+        }
+
+        const proposals = proposeKeepers(this.app, groups, this.settings.keepRules);
+        new AutoResolveModal(this.app, proposals, async (selected) => {
+            const resolved: DuplicateGroup[] = [];
+            let trashed = 0;
+            let links = 0;
+            let failed = 0;
+            for (const proposal of selected) {
+                try {
+                    const summary = await redirectLinks(this.app, proposal.losers, proposal.winner!);
+                    links += summary.links;
+                    for (const loser of proposal.losers) {
+                        await this.app.fileManager.trashFile(loser);
+                        trashed++;
+                    }
+                    resolved.push(proposal.group);
+                } catch (error) {
+                    failed++;
+                    console.error("Auto-resolve error:", proposal.group.representativeTitle, error);
+                }
+            }
+
+            this.duplicateReviewView?.removeGroups(resolved);
+            new Notice(
+                `Resolved ${resolved.length} ${resolved.length === 1 ? "group" : "groups"}: trashed ${trashed} `
+                + `${trashed === 1 ? "file" : "files"} and repointed ${links} ${links === 1 ? "link" : "links"}.`
+                + (failed > 0 ? ` ${failed} failed; see the console.` : "")
+            );
+        }).open();
+    }
+
+    // ── properties ─────────────────────────────────────────────────────────
+
+    /** Compare a group's frontmatter and write the chosen values into one note. */
+    openFrontmatterPanel(group: DuplicateGroup): void {
+        new FrontmatterModal(this.app, group.files, async ({ target, values }) => {
+            try {
+                await writeFrontmatter(this.app, target, values);
+                const count = Object.keys(values).length;
+                new Notice(`Updated ${count} ${count === 1 ? "property" : "properties"} in ${target.basename}.`);
+            } catch (error) {
+                new Notice(`Error updating ${target.basename}: ${error.message}`);
+                console.error("Frontmatter update error:", error);
+            }
+        }).open();
+    }
+
     // ── multi-pane comparison ──────────────────────────────────────────────
 
+    /** Open a side-by-side diff of two notes in a new tab. */
+    async openDiff(file1: TFile, file2: TFile): Promise<void> {
+        const leaf = this.app.workspace.getLeaf("tab");
+        await leaf.setViewState({
+            type: DUPLICATE_DIFF_VIEW_TYPE,
+            active: true,
+            state: { file1: file1.path, file2: file2.path },
+        });
+        this.app.workspace.revealLeaf(leaf);
+    }
+
     async openMultiPaneComparison(files: TFile[]): Promise<void> {
         const maxPanes = this.settings.maxComparisonPanes;
         const filesToOpen = files.slice(0, maxPanes);
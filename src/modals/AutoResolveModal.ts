@@ -0,0 +1,120 @@
+import { App, Modal, Setting } from "obsidian";
+import { KEEP_RULE_LABELS, KeepProposal, RuleVote } from "src/actions/keepRules";
+
+// Proposals listed with their own toggle; the rest are applied as a batch
+const MAX_LISTED_PROPOSALS = 200;
+
+function describeVotes(votes: RuleVote[]): string {
+    return votes
+        .filter((v) => v.winner)
+        .map((v) => `${KEEP_RULE_LABELS[v.rule.type].toLowerCase()} → ${v.winner!.basename}`)
+        .join(", ");
+}
+
+/**
+ * Dry run of the keep rules: which file each resolvable group keeps and
+ * which it trashes, with groups the rules disagree on, can't decide, or
+ * that share files with another group counted and left out.
+ * Nothing changes until "Apply" is pressed.
+ */
+export class AutoResolveModal extends Modal {
+    private resolvable: KeepProposal[];
+    private unresolved: KeepProposal[];
+    private selected: Set<KeepProposal>;
+    private onApply: (proposals: KeepProposal[]) => void;
+    private applyButton: HTMLButtonElement | null = null;
+
+    constructor(app: App, proposals: KeepProposal[], onApply: (proposals: KeepProposal[]) => void) {
+        super(app);
+        this.resolvable = proposals.filter((p) => p.winner);
+        this.unresolved = proposals.filter((p) => !p.winner);
+        this.selected = new Set(this.resolvable);
+        this.onApply = onApply;
+    }
+
+    onOpen(): void {
+        const { contentEl } = this;
+        contentEl.createEl("h3", { text: "Resolve groups automatically" });
+
+        const overlapping = this.unresolved.filter((p) => p.sharesFiles);
+        const conflicting = this.unresolved.filter((p) => !p.sharesFiles && p.votes.some((v) => v.winner));
+        const disagree = conflicting.length;
+        const undecided = this.unresolved.length - disagree - overlapping.length;
+        contentEl.createEl("p", {
+            text: `${this.resolvable.length} of ${this.resolvable.length + this.unresolved.length} groups can be resolved. `
+                + `Left for manual review: ${disagree} where the rules disagree, ${undecided} no rule could decide, `
+                + `${overlapping.length} sharing files with another group.`,
+        });
+
+        const listEl = contentEl.createDiv("duplicate-review-auto-resolve-list");
+        for (const proposal of this.resolvable.slice(0, MAX_LISTED_PROPOSALS)) {
+            new Setting(listEl)
+                .setName(`Keep ${proposal.winner!.path}`)
+                .setDesc(`Trash ${proposal.losers.map((f) => f.path).join(", ")} (${describeVotes(proposal.votes)})`)
+                .addToggle((toggle) =>
+                    toggle.setValue(true).onChange((value) => {
+                        if (value) {
+                            this.selected.add(proposal);
+                        } else {
+                            this.selected.delete(proposal);
+                        }
+                        this.updateApplyButton();
+                    })
+                );
+        }
+        const unlisted = this.resolvable.length - MAX_LISTED_PROPOSALS;
+        if (unlisted > 0) {
+            listEl.createDiv({
+                cls: "duplicate-review-empty-hint",
+                text: `…and ${unlisted} more groups, applied as proposed`,
+            });
+        }
+
+        if (disagree > 0) {
+            contentEl.createEl("h4", { text: "Rules disagree" });
+            const conflictEl = contentEl.createDiv("duplicate-review-auto-resolve-list");
+            for (const proposal of conflicting.slice(0, MAX_LISTED_PROPOSALS)) {
+                new Setting(conflictEl)
+                    .setName(proposal.group.representativeTitle)
+                    .setDesc(describeVotes(proposal.votes));
+            }
+        }
+
+        if (overlapping.length > 0) {
+            contentEl.createEl("h4", { text: "Share files with another group" });
+            const overlapEl = contentEl.createDiv("duplicate-review-auto-resolve-list");
+            for (const proposal of overlapping.slice(0, MAX_LISTED_PROPOSALS)) {
+                new Setting(overlapEl)
+                    .setName(proposal.group.representativeTitle)
+                    .setDesc(proposal.group.files.map((f) => f.path).join(", "));
+            }
+        }
+
+        new Setting(contentEl)
+            .addButton((button) =>
+                button.setButtonText("Cancel").onClick(() => this.close())
+            )
+            .addButton((button) => {
+                this.applyButton = button.buttonEl;
+                button
+                    .setCta()
+                    .onClick(() => {
+                        if (this.selected.size === 0) return;
+                        this.close();
+                        this.onApply(this.resolvable.filter((p) => this.selected.has(p)));
+                    });
+            });
+        this.updateApplyButton();
+    }
+
+    private updateApplyButton(): void {
+        if (!this.applyButton) return;
+        const count = this.selected.size;
+        this.applyButton.setText(`Apply ${count} ${count === 1 ? "group" : "groups"}`);
+        this.applyButton.disabled = count === 0;
+    }
+
+    onClose(): void {
+        this.contentEl.empty();
+    }
+}
@@ -0,0 +1,61 @@
+import { App, Modal, Setting, TFile } from "obsidian";
+import { findReferences } from "src/actions/links";
+
+/**
+ * Confirm deleting one duplicate, picking the sibling its links and embeds
+ * are repointed to before it is moved to trash.
+ */
+export class DeleteRedirectModal extends Modal {
+    private file: TFile;
+    private siblings: TFile[];
+    private onConfirm: (target: TFile) => void;
+    private target: TFile;
+
+    constructor(app: App, file: TFile, siblings: TFile[], onConfirm: (target: TFile) => void) {
+        super(app);
+        this.file = file;
+        this.siblings = siblings;
+        this.onConfirm = onConfirm;
+        this.target = siblings[0];
+    }
+
+    onOpen(): void {
+        const { contentEl } = this;
+        contentEl.createEl("h3", { text: `Delete "${this.file.basename}"` });
+
+        const references = findReferences(this.app, [this.file]).get(this.file.path) || [];
+        contentEl.createEl("p", {
+            text: references.length === 0
+                ? "No notes link to this file."
+                : `${references.length} ${references.length === 1 ? "note links" : "notes link"} to this file. `
+                    + "Their links will keep any heading, block reference and display text.",
+        });
+
+        new Setting(contentEl)
+            .setName("Redirect links to")
+            .addDropdown((dropdown) => {
+                for (const sibling of this.siblings) dropdown.addOption(sibling.path, sibling.path);
+                dropdown.setValue(this.target.path).onChange((path) => {
+                    this.target = this.siblings.find((f) => f.path === path) ?? this.target;
+                });
+            });
+
+        new Setting(contentEl)
+            .addButton((button) =>
+                button.setButtonText("Cancel").onClick(() => this.close())
+            )
+            .addButton((button) =>
+                button
+                    .setButtonText("Delete and redirect")
+                    .setWarning()
+                    .onClick(() => {
+                        this.close();
+                        this.onConfirm(this.target);
+                    })
+            );
+    }
+
+    onClose(): void {
+        this.contentEl.empty();
+    }
+}
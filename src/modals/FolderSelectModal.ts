@@ -8,12 +8,13 @@ export class FolderSelectModal extends FuzzySuggestModal<TFolder> {
     constructor(
         app: App,
         settings: DuplicateReviewerSettings,
-        onChoose: (folder: TFolder) => void
+        onChoose: (folder: TFolder) => void,
+        placeholder: string = "Select a folder to scan for duplicates..."
     ) {
         super(app);
         this.settings = settings;
         this.onChoose = onChoose;
-        this.setPlaceholder("Select a folder to scan for duplicates...");
+        this.setPlaceholder(placeholder);
     }
 
     getItems(): TFolder[] {
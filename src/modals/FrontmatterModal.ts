@@ -0,0 +1,160 @@
+import { App, DropdownComponent, Modal, Setting, TFile } from "obsidian";
+import { FrontmatterField, compareFrontmatter, sameValue, unionValues } from "src/actions/frontmatter";
+
+/** Property values to write into a note: undefined removes the key. */
+export interface FrontmatterResolution {
+    target: TFile;
+    values: Record<string, unknown>;
+}
+
+// A row's choice: one note's value ("file:<index>"), the union of lists, or removal
+type Choice = string;
+const UNION = "union";
+const REMOVE = "remove";
+
+function formatValue(value: unknown): string {
+    if (value === undefined) return "—";
+    if (Array.isArray(value)) return value.map((v) => formatValue(v)).join(", ");
+    if (value !== null && typeof value === "object") return JSON.stringify(value);
+    return String(value);
+}
+
+/**
+ * Table every frontmatter key across a group's notes, highlight the keys
+ * they disagree on, and pick a value per key (or union lists) to write into
+ * one of the notes.
+ */
+export class FrontmatterModal extends Modal {
+    private files: TFile[];
+    private fields: FrontmatterField[];
+    private onApply: (resolution: FrontmatterResolution) => void;
+    private target: number = 0;
+    private choices: Map<string, Choice> = new Map();
+
+    constructor(app: App, files: TFile[], onApply: (resolution: FrontmatterResolution) => void) {
+        super(app);
+        this.files = files;
+        this.onApply = onApply;
+        this.fields = compareFrontmatter(app, files);
+    }
+
+    onOpen(): void {
+        this.modalEl.addClass("duplicate-review-frontmatter-modal");
+        this.render();
+    }
+
+    onClose(): void {
+        this.contentEl.empty();
+    }
+
+    /** Lists are unioned; otherwise the target's value, or the first note that has the key. */
+    private defaultChoice(field: FrontmatterField): Choice {
+        if (field.isList) return UNION;
+        const index = field.values[this.target] !== undefined
+            ? this.target
+            : field.values.findIndex((v) => v !== undefined);
+        return `file:${index}`;
+    }
+
+    private choiceFor(field: FrontmatterField): Choice {
+        return this.choices.get(field.key) ?? this.defaultChoice(field);
+    }
+
+    private resolve(field: FrontmatterField, choice: Choice): unknown {
+        if (choice === UNION) return unionValues([field.values[this.target], ...field.values]);
+        if (choice === REMOVE) return undefined;
+        return field.values[Number(choice.slice("file:".length))];
+    }
+
+    /** Keys whose chosen value differs from what the target note has now. */
+    private changes(): Record<string, unknown> {
+        const values: Record<string, unknown> = {};
+        for (const field of this.fields) {
+            const value = this.resolve(field, this.choiceFor(field));
+            if (!sameValue(value, field.values[this.target])) values[field.key] = value;
+        }
+        return values;
+    }
+
+    private render(): void {
+        const { contentEl } = this;
+        contentEl.empty();
+        contentEl.createEl("h3", { text: "Compare properties" });
+
+        if (this.fields.length === 0) {
+            contentEl.createDiv({ cls: "duplicate-review-empty", text: "None of these notes have properties." });
+            return;
+        }
+
+        const table = contentEl.createEl("table", { cls: "duplicate-review-frontmatter-table" });
+        const headRow = table.createEl("thead").createEl("tr");
+        headRow.createEl("th", { text: "Property" });
+        this.files.forEach((file, i) => {
+            const th = headRow.createEl("th", { text: file.basename });
+            th.setAttr("aria-label", file.path);
+            th.toggleClass("is-target", i === this.target);
+        });
+        headRow.createEl("th", { text: "Keep" });
+
+        const body = table.createEl("tbody");
+        for (const field of this.fields) {
+            const row = body.createEl("tr");
+            row.toggleClass("is-conflict", field.conflict);
+            row.createEl("td", { cls: "duplicate-review-frontmatter-key", text: field.key });
+
+            const choice = this.choiceFor(field);
+            field.values.forEach((value, i) => {
+                const cell = row.createEl("td", { text: formatValue(value) });
+                cell.toggleClass("is-missing", value === undefined);
+                cell.toggleClass("is-selected", choice === `file:${i}` || (choice === UNION && value !== undefined));
+                if (value !== undefined) {
+                    cell.addEventListener("click", () => this.choose(field, `file:${i}`));
+                }
+            });
+
+            const dropdown = new DropdownComponent(row.createEl("td"));
+            field.values.forEach((value, i) => {
+                if (value !== undefined) dropdown.addOption(`file:${i}`, this.files[i].basename);
+            });
+            if (field.isList) dropdown.addOption(UNION, "Union of lists");
+            dropdown.addOption(REMOVE, "Remove");
+            dropdown.setValue(choice).onChange((value) => this.choose(field, value));
+        }
+
+        new Setting(contentEl)
+            .setName("Write into")
+            .setDesc("Only the properties that change in this note are written")
+            .addDropdown((dropdown) => {
+                this.files.forEach((file, i) => dropdown.addOption(String(i), file.path));
+                dropdown.setValue(String(this.target)).onChange((value) => {
+                    this.target = Number(value);
+                    this.render();
+                });
+            });
+
+        const changes = this.changes();
+        const count = Object.keys(changes).length;
+        new Setting(contentEl)
+            .setDesc(count === 0
+                ? "The note already has these values."
+                : `${count} ${count === 1 ? "property" : "properties"} will change.`)
+            .addButton((button) =>
+                button.setButtonText("Cancel").onClick(() => this.close())
+            )
+            .addButton((button) =>
+                button
+                    .setButtonText("Apply")
+                    .setCta()
+                    .setDisabled(count === 0)
+                    .onClick(() => {
+                        this.close();
+                        this.onApply({ target: this.files[this.target], values: changes });
+                    })
+            );
+    }
+
+    private choose(field: FrontmatterField, choice: Choice): void {
+        this.choices.set(field.key, choice);
+        this.render();
+    }
+}
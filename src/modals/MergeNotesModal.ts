@@ -0,0 +1,137 @@
+import { App, Modal, Setting, TFile, stringifyYaml } from "obsidian";
+import { FrontmatterField, compareFrontmatter, defaultFieldValue } from "src/actions/frontmatter";
+import { MergeLayout, MergeOptions, MergeSource, mergeBodies } from "src/actions/merge";
+
+/**
+ * Merge a group's notes into one: pick the canonical note and how bodies
+ * are combined, settle frontmatter values the notes disagree on, and
+ * preview the result before applying it.
+ */
+export class MergeNotesModal extends Modal {
+    private sources: MergeSource[];
+    private fields: FrontmatterField[];
+    private onMerge: (options: MergeOptions) => void;
+    private canonical: number = 0;
+    private layout: MergeLayout = "append";
+    // key → index of the note whose value is kept, for scalar conflicts
+    private choices: Map<string, number> = new Map();
+
+    constructor(app: App, sources: MergeSource[], onMerge: (options: MergeOptions) => void) {
+        super(app);
+        this.sources = sources;
+        this.onMerge = onMerge;
+        this.fields = compareFrontmatter(app, sources.map((s) => s.file));
+    }
+
+    onOpen(): void {
+        this.render();
+    }
+
+    onClose(): void {
+        this.contentEl.empty();
+    }
+
+    private get files(): TFile[] {
+        return this.sources.map((s) => s.file);
+    }
+
+    /** The merged frontmatter: defaults, with the user's pick for each scalar conflict. */
+    private mergedFrontmatter(): Record<string, unknown> {
+        const merged: Record<string, unknown> = {};
+        for (const field of this.fields) {
+            const choice = this.choices.get(field.key);
+            merged[field.key] = choice !== undefined && !field.isList
+                ? field.values[choice]
+                : defaultFieldValue(field, this.canonical);
+        }
+        return merged;
+    }
+
+    /** Sources with the canonical note first, as `mergeBodies` expects. */
+    private orderedSources(): MergeSource[] {
+        const canonical = this.sources[this.canonical];
+        return [canonical, ...this.sources.filter((s) => s !== canonical)];
+    }
+
+    private render(): void {
+        const { contentEl } = this;
+        contentEl.empty();
+        contentEl.createEl("h3", { text: "Merge notes" });
+
+        new Setting(contentEl)
+            .setName("Canonical note")
+            .setDesc("The note that is kept; the others are merged into it and moved to trash")
+            .addDropdown((dropdown) => {
+                this.files.forEach((file, i) => dropdown.addOption(String(i), file.path));
+                dropdown.setValue(String(this.canonical)).onChange((value) => {
+                    this.canonical = Number(value);
+                    this.choices.clear();
+                    this.render();
+                });
+            });
+
+        new Setting(contentEl)
+            .setName("Combine bodies")
+            .addDropdown((dropdown) =>
+                dropdown
+                    .addOption("append", "Append each note under its own heading")
+                    .addOption("interleave", "Interleave sections with the same heading")
+                    .setValue(this.layout)
+                    .onChange((value) => {
+                        this.layout = value as MergeLayout;
+                        this.render();
+                    })
+            );
+
+        const conflicts = this.fields.filter((f) => f.conflict && !f.isList);
+        if (conflicts.length > 0) {
+            contentEl.createEl("h4", { text: "Conflicting properties" });
+            for (const field of conflicts) {
+                new Setting(contentEl).setName(field.key).addDropdown((dropdown) => {
+                    field.values.forEach((value, i) => {
+                        if (value === undefined) return;
+                        dropdown.addOption(String(i), `${JSON.stringify(value)} (${this.files[i].basename})`);
+                    });
+                    const chosen = this.choices.get(field.key)
+                        ?? (field.values[this.canonical] !== undefined
+                            ? this.canonical
+                            : field.values.findIndex((v) => v !== undefined));
+                    dropdown.setValue(String(chosen)).onChange((value) => {
+                        this.choices.set(field.key, Number(value));
+                        this.render();
+                    });
+                });
+            }
+        }
+
+        contentEl.createEl("h4", { text: "Preview" });
+        const frontmatter = this.mergedFrontmatter();
+        const body = mergeBodies(this.orderedSources(), this.layout);
+        const preview = Object.keys(frontmatter).length > 0
+            ? `---\n${stringifyYaml(frontmatter)}---\n${body}`
+            : body;
+        contentEl.createEl("pre", { cls: "duplicate-review-merge-preview", text: preview });
+
+        const others = this.orderedSources().slice(1).map((s) => s.file);
+        new Setting(contentEl)
+            .setDesc(`Links to ${others.length} ${others.length === 1 ? "note" : "notes"} will point to `
+                + `${this.files[this.canonical].basename}, and ${others.length === 1 ? "it" : "they"} will be moved to trash.`)
+            .addButton((button) =>
+                button.setButtonText("Cancel").onClick(() => this.close())
+            )
+            .addButton((button) =>
+                button
+                    .setButtonText("Merge")
+                    .setCta()
+                    .onClick(() => {
+                        this.close();
+                        this.onMerge({
+                            canonical: this.files[this.canonical],
+                            others,
+                            layout: this.layout,
+                            frontmatter,
+                        });
+                    })
+            );
+    }
+}
@@ -0,0 +1,89 @@
+import { App, Modal, Setting, TFile } from "obsidian";
+import { DuplicateGroup } from "src/types";
+
+/** What the user chose in the resolve dialog. */
+export interface AttachmentResolution {
+    keep: TFile;
+    copies: TFile[];
+    trashCopies: boolean;
+}
+
+/**
+ * Pick which copy of an identical attachment to keep.  Links and embeds to
+ * the other copies are repointed to it, and the copies optionally trashed.
+ */
+export class ResolveAttachmentsModal extends Modal {
+    private group: DuplicateGroup;
+    private onResolve: (resolution: AttachmentResolution) => void;
+    private keep: TFile;
+    private trashCopies: boolean = true;
+
+    constructor(app: App, group: DuplicateGroup, onResolve: (resolution: AttachmentResolution) => void) {
+        super(app);
+        this.group = group;
+        this.onResolve = onResolve;
+        this.keep = this.defaultKeep();
+    }
+
+    /** The most referenced copy; ties go to the shorter name. */
+    private defaultKeep(): TFile {
+        const count = (f: TFile) => this.group.references?.get(f.path)?.length ?? 0;
+        let best = this.group.files[0];
+        for (const file of this.group.files) {
+            const diff = count(file) - count(best);
+            if (diff > 0 || (diff === 0 && file.name.length < best.name.length)) best = file;
+        }
+        return best;
+    }
+
+    onOpen(): void {
+        const { contentEl } = this;
+        contentEl.createEl("h3", { text: "Resolve identical attachments" });
+
+        const refCount = (f: TFile) => this.group.references?.get(f.path)?.length ?? 0;
+
+        new Setting(contentEl)
+            .setName("Keep")
+            .setDesc("Links and embeds to the other copies will point to this file")
+            .addDropdown((dropdown) => {
+                for (const file of this.group.files) {
+                    const refs = refCount(file);
+                    dropdown.addOption(file.path, `${file.path} (${refs} ${refs === 1 ? "note" : "notes"})`);
+                }
+                dropdown.setValue(this.keep.path).onChange((path) => {
+                    this.keep = this.group.files.find((f) => f.path === path) ?? this.keep;
+                });
+            });
+
+        new Setting(contentEl)
+            .setName("Move the other copies to trash")
+            .setDesc("Uses your vault's trash setting")
+            .addToggle((toggle) =>
+                toggle.setValue(this.trashCopies).onChange((value) => {
+                    this.trashCopies = value;
+                })
+            );
+
+        new Setting(contentEl)
+            .addButton((button) =>
+                button.setButtonText("Cancel").onClick(() => this.close())
+            )
+            .addButton((button) =>
+                button
+                    .setButtonText("Resolve")
+                    .setCta()
+                    .onClick(() => {
+                        this.close();
+                        this.onResolve({
+                            keep: this.keep,
+                            copies: this.group.files.filter((f) => f !== this.keep),
+                            trashCopies: this.trashCopies,
+                        });
+                    })
+            );
+    }
+
+    onClose(): void {
+        this.contentEl.empty();
+    }
+}
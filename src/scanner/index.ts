@@ -1,9 +1,61 @@
-import { App, TFile, TFolder } from "obsidian";
-import { normalizeTitle, titleSimilarity, contentSimilarity } from "src/similarity";
-import { DuplicateCandidate, DuplicateGroup, DuplicateReviewerSettings, ScanProgress } from "src/types";
+import { App, TFile, TFolder, getAllTags, parseFrontMatterAliases, parseLinktext } from "obsidian";
+import {
+    normalizeTitle,
+    titleSimilarity,
+    titleIdf,
+    extractBody,
+    markdownToPlainText,
+    hashBinary,
+    normalizeIdentifier,
+    isSubsetPair,
+} from "src/similarity";
+import type { ContentCompareOptions, IdfTable, NoteMetadata, PlainTextOptions } from "src/similarity";
+import {
+    DuplicateCandidate,
+    DuplicateGroup,
+    DuplicateReviewerSettings,
+    ScanMode,
+    ScanProgress,
+    FileSignature,
+    PreviousScan,
+    ScanResult,
+    SimilarityStrategy,
+    StrategyContext,
+    StrategyMatch,
+    TitleVariant,
+} from "src/types";
+import { getEnabledStrategies, getStrategyThreshold } from "src/strategies/registry";
+import { runJob } from "src/worker/client";
+import { findReferences } from "src/actions/links";
+import type { PairScores, RawNote } from "src/worker/jobs";
 
-function yieldToEventLoop(): Promise<void> {
-    return new Promise((resolve) => setTimeout(resolve, 0));
+/**
+ * Order files for an incremental single-pass scan: unchanged files first, so
+ * they are only added to the index, then changed files, which are compared
+ * against everything before them.  That yields exactly the pairs involving a
+ * changed file.  Without `changed`, every file is compared.
+ */
+function changedLast(files: TFile[], changed?: Set<string>): { ordered: TFile[]; compareFrom: number } {
+    if (!changed) return { ordered: files, compareFrom: 0 };
+    const unchangedFiles = files.filter((f) => !changed.has(f.path));
+    const changedFiles = files.filter((f) => changed.has(f.path));
+    return { ordered: unchangedFiles.concat(changedFiles), compareFrom: unchangedFiles.length };
+}
+
+// Notes read and sent to the worker per job while hashing
+const NOTE_BATCH_SIZE = 100;
+// Candidate pairs read and sent to the worker per scoring job
+const PAIR_BATCH_SIZE = 200;
+
+/** Adapt a worker job's item counts to `ScanProgress` for one stage. */
+function stageProgress(
+    stage: ScanProgress["stage"],
+    onProgress?: (progress: ScanProgress) => void,
+    offset: number = 0,
+    total?: number
+): ((current: number, jobTotal: number) => void) | undefined {
+    if (!onProgress) return undefined;
+    return (current, jobTotal) => onProgress({ stage, current: offset + current, total: total ?? jobTotal });
 }
 
 /**
@@ -40,177 +92,998 @@ export function collectMarkdownFiles(
 }
 
 /**
- * Compute the normalised word set for a filename (the unit the inverted index keys on).
+ * Collect non-markdown files (images, PDFs, other attachments) scoped to a
+ * folder, skipping the same ignored and hidden paths as notes.
+ */
+export function collectAttachmentFiles(
+    app: App,
+    folder: TFolder,
+    ignoredFolders: string[]
+): TFile[] {
+    const prefix = folder.path === "/" ? "" : folder.path + "/";
+    return app.vault.getFiles().filter((file) =>
+        file.extension !== "md" &&
+        (prefix === "" || file.path.startsWith(prefix)) &&
+        !shouldSkipPath(file.path, ignoredFolders)
+    );
+}
+
+/**
+ * Read a note's raw content along with where the metadata cache says its
+ * frontmatter ends — everything the worker needs to process it.
+ */
+export async function readRawNote(app: App, file: TFile): Promise<RawNote> {
+    return {
+        content: await app.vault.cachedRead(file),
+        frontmatterEnd: app.metadataCache.getFileCache(file)?.frontmatterPosition?.end.offset,
+    };
+}
+
+/**
+ * Read a batch of notes, leaving out any that can't be read.
+ */
+async function readRawNotes(app: App, files: TFile[]): Promise<{ files: TFile[]; notes: RawNote[] }> {
+    const read: { files: TFile[]; notes: RawNote[] } = { files: [], notes: [] };
+    for (const file of files) {
+        try {
+            read.notes.push(await readRawNote(app, file));
+            read.files.push(file);
+        } catch {
+            // Unreadable file — leave it out of the comparison
+        }
+    }
+    return read;
+}
+
+/**
+ * Read a note's body, using the metadata cache's frontmatter position to
+ * cut the frontmatter.
  */
-function wordSet(basename: string): Set<string> {
-    const norm = normalizeTitle(basename);
-    return new Set(norm.split(/\s+/).filter(Boolean));
+export async function readBody(app: App, file: TFile): Promise<string> {
+    const note = await readRawNote(app, file);
+    return extractBody(note.content, note.frontmatterEnd);
 }
 
 /**
- * Find potential duplicate notes using an inverted-index single-pass algorithm.
+ * Read a note as plain text (markdown syntax stripped) for content comparison.
+ */
+export async function readComparableText(app: App, file: TFile, options: PlainTextOptions): Promise<string> {
+    return markdownToPlainText(await readBody(app, file), options);
+}
+
+/** The settings that shape plain-text extraction, as plain data for the worker. */
+function plainTextOptions(settings: DuplicateReviewerSettings): PlainTextOptions {
+    return { dropCodeBlocks: settings.dropCodeBlocks, dropEmbeds: settings.dropEmbeds };
+}
+
+/** The settings that decide how two bodies are compared, as plain data for the worker. */
+function compareOptions(settings: DuplicateReviewerSettings): ContentCompareOptions {
+    return {
+        contentComparisonMode: settings.contentComparisonMode,
+        contentCharsToAnalyze: settings.contentCharsToAnalyze,
+        shingleSize: settings.shingleSize,
+        contentSimilarityThreshold: settings.contentSimilarityThreshold,
+    };
+}
+
+/** Supplies every title a file should be matched under. */
+export type TitleSource = (file: TFile) => TitleVariant[];
+
+/** The filename as a note's only title. */
+export const filenameTitles: TitleSource = (file) => [{ title: file.basename, source: "filename" }];
+
+/**
+ * A note's filename plus its frontmatter aliases and first H1 heading, read
+ * from the metadata cache.  Variants that normalize to an already-listed
+ * title (or to nothing) are dropped.
+ */
+export function getTitleVariants(app: App, file: TFile): TitleVariant[] {
+    const variants = filenameTitles(file);
+    const seen = new Set([normalizeTitle(file.basename)]);
+    const add = (title: string, source: TitleVariant["source"]) => {
+        const norm = normalizeTitle(title);
+        if (norm && !seen.has(norm)) {
+            seen.add(norm);
+            variants.push({ title, source });
+        }
+    };
+
+    const cache = app.metadataCache.getFileCache(file);
+    for (const alias of parseFrontMatterAliases(cache?.frontmatter) || []) {
+        add(alias, "alias");
+    }
+    const heading = cache?.headings?.find((h) => h.level === 1);
+    if (heading) add(heading.heading, "heading");
+
+    return variants;
+}
+
+/**
+ * Document frequencies of title words across `files`, for IDF weighting.
+ * Each file counts once per word, however many of its titles contain it.
+ */
+export function buildTitleIdf(files: TFile[], titles: TitleSource = filenameTitles): IdfTable {
+    return titleIdf(files.map(titles));
+}
+
+export interface TitleIndexOptions {
+    /** Score with IDF-weighted Jaccard instead of plain Jaccard. */
+    weightByIdf?: boolean;
+    /**
+     * Leave words found in more than this share of titles out of the index
+     * buckets.  Titles made only of such words still index all of them, so
+     * "Meeting notes" can meet its twin; pairs sharing nothing but common
+     * words are skipped, which trades a little recall for speed.
+     */
+    pruneRatio?: number;
+    /**
+     * Titles to index per file (default: just the filename).  A pair scores
+     * as its best-matching pair of titles.
+     */
+    titles?: TitleSource;
+    /** Only report pairs involving one of these paths (incremental rescans). */
+    changed?: Set<string>;
+}
+
+/**
+ * Find potential duplicate notes by title.
  *
- * For each file processed, its words are looked up in the index to find
- * previously-seen files that share at least one word.  Only those candidate
- * pairs are scored with full Jaccard similarity — the vast majority of the
- * vault never needs to be compared at all.  Yields to the event loop after
- * every file so Obsidian stays responsive on large vaults.
+ * Titles are gathered here and handed to the worker, which runs an
+ * inverted-index single pass: each file is only scored against earlier files
+ * sharing at least one title word, so the vast majority of the vault never
+ * needs to be compared at all.
  */
 export async function findTitleDuplicates(
     files: TFile[],
     titleThreshold: number,
     signal?: AbortSignal,
+    onProgress?: (progress: ScanProgress) => void,
+    options: TitleIndexOptions = {}
+): Promise<DuplicateCandidate[]> {
+    const titles = options.titles || filenameTitles;
+    const { ordered, compareFrom } = changedLast(files, options.changed);
+
+    const pairs = await runJob("title", {
+        titles: ordered.map(titles),
+        threshold: titleThreshold,
+        weightByIdf: !!options.weightByIdf,
+        pruneRatio: options.pruneRatio,
+        compareFrom,
+    }, signal, stageProgress("comparing", onProgress));
+
+    const duplicates = pairs.map((pair) => {
+        const candidate: DuplicateCandidate = {
+            file1: ordered[pair.index1],
+            file2: ordered[pair.index2],
+            titleSimilarity: pair.score,
+        };
+        if (pair.variant1.source !== "filename" || pair.variant2.source !== "filename") {
+            candidate.titleVariant1 = pair.variant1;
+            candidate.titleVariant2 = pair.variant2;
+        }
+        return candidate;
+    });
+
+    duplicates.sort((a, b) => b.titleSimilarity - a.titleSimilarity);
+    return duplicates;
+}
+
+/**
+ * Typo-tolerant variant of `findTitleDuplicates`: the worker indexes
+ * character trigrams instead of whole words, so "Kubernetes" and "Kubernets"
+ * still meet, and scores pairs with `fuzzySimilarity`.  Candidates keep their
+ * word-Jaccard `titleSimilarity` alongside.
+ */
+export async function findFuzzyTitleDuplicates(
+    files: TFile[],
+    fuzzyThreshold: number,
+    signal?: AbortSignal,
+    onProgress?: (progress: ScanProgress) => void,
+    changed?: Set<string>
+): Promise<DuplicateCandidate[]> {
+    const { ordered, compareFrom } = changedLast(files, changed);
+
+    const pairs = await runJob("fuzzy-title", {
+        titles: ordered.map((f) => f.basename),
+        threshold: fuzzyThreshold,
+        compareFrom,
+    }, signal, stageProgress("comparing", onProgress));
+
+    const duplicates: DuplicateCandidate[] = pairs.map((pair) => ({
+        file1: ordered[pair.index1],
+        file2: ordered[pair.index2],
+        titleSimilarity: pair.titleSimilarity,
+        fuzzyTitleSimilarity: pair.fuzzy,
+    }));
+
+    duplicates.sort((a, b) => (b.fuzzyTitleSimilarity || 0) - (a.fuzzyTitleSimilarity || 0));
+    return duplicates;
+}
+
+/**
+ * A note's tags, outgoing links and identifier property values, read from
+ * the metadata cache.
+ */
+export function getNoteMetadata(app: App, file: TFile, identifierKeys: string[]): NoteMetadata {
+    const cache = app.metadataCache.getFileCache(file);
+    const tags = cache ? (getAllTags(cache) || []).map((t) => t.toLowerCase()) : [];
+    // Link text rather than resolved paths: what a link resolves to changes
+    // when other notes are created or renamed, which incremental scans
+    // wouldn't notice
+    const links = new Set<string>();
+    for (const ref of [...(cache?.links || []), ...(cache?.embeds || []), ...(cache?.frontmatterLinks || [])]) {
+        const path = parseLinktext(ref.link).path.trim().toLowerCase();
+        if (path) links.add(path);
+    }
+
+    const identifiers: [string, string][] = [];
+    for (const key of identifierKeys) {
+        const raw: unknown = cache?.frontmatter?.[key];
+        for (const value of Array.isArray(raw) ? raw : [raw]) {
+            if (typeof value !== "string" && typeof value !== "number") continue;
+            const normalized = normalizeIdentifier(String(value));
+            if (normalized) identifiers.push([normalized, key]);
+        }
+    }
+
+    return { tags: Array.from(new Set(tags)), links: Array.from(links), identifiers };
+}
+
+/**
+ * Find notes with overlapping metadata: the same identifier property value
+ * (`url`, `isbn`, ...), or shared tags and outgoing links.  Metadata is read
+ * here and matched in the worker with an inverted index.
+ */
+export async function findMetadataDuplicates(
+    app: App,
+    files: TFile[],
+    threshold: number,
+    identifierKeys: string[],
+    signal?: AbortSignal,
+    onProgress?: (progress: ScanProgress) => void,
+    changed?: Set<string>
+): Promise<DuplicateCandidate[]> {
+    const { ordered, compareFrom } = changedLast(files, changed);
+
+    const pairs = await runJob("metadata", {
+        notes: ordered.map((f) => getNoteMetadata(app, f, identifierKeys)),
+        threshold,
+        compareFrom,
+    }, signal, stageProgress("comparing", onProgress));
+
+    return pairs.map((pair): DuplicateCandidate => {
+        const candidate: DuplicateCandidate = {
+            file1: ordered[pair.index1],
+            file2: ordered[pair.index2],
+            titleSimilarity: titleSimilarity(ordered[pair.index1].basename, ordered[pair.index2].basename),
+            metadataSimilarity: pair.score,
+        };
+        if (pair.sharedIdentifier) candidate.sharedIdentifier = pair.sharedIdentifier;
+        return candidate;
+    });
+}
+
+// Pairs must share at least this many neighbors, so two notes that each
+// link only to the same index note aren't reported as identical
+const MIN_SHARED_NEIGHBORS = 2;
+// Neighbors of more notes than this are too common to propose pairs
+const MAX_NEIGHBOR_FANOUT = 200;
+
+/**
+ * Every note's link neighborhood from the resolved links: the files it links
+ * to plus the notes linking to it, by path.  Self-links are left out.
+ */
+export function getLinkNeighbors(app: App): Map<string, Set<string>> {
+    const neighbors = new Map<string, Set<string>>();
+    const add = (from: string, to: string) => {
+        let set = neighbors.get(from);
+        if (!set) {
+            set = new Set();
+            neighbors.set(from, set);
+        }
+        set.add(to);
+    };
+    for (const [source, links] of Object.entries(app.metadataCache.resolvedLinks)) {
+        for (const target of Object.keys(links)) {
+            if (target === source) continue;
+            add(source, target);
+            add(target, source);
+        }
+    }
+    return neighbors;
+}
+
+/**
+ * Find notes whose link neighborhoods overlap: the same notes link to them
+ * and they link to the same notes, whatever they are called.  Neighborhoods
+ * come from the metadata cache's resolved links; matching runs in the worker.
+ */
+export async function findLinkGraphDuplicates(
+    app: App,
+    files: TFile[],
+    threshold: number,
+    signal?: AbortSignal,
     onProgress?: (progress: ScanProgress) => void
 ): Promise<DuplicateCandidate[]> {
-    const duplicates: DuplicateCandidate[] = [];
+    const neighbors = getLinkNeighbors(app);
 
-    // inverted index: normalised word → indices into `files` already processed
-    const index = new Map<string, number[]>();
-    // pre-computed word sets, keyed by file index
-    const wordSets = new Map<number, Set<string>>();
+    const pairs = await runJob("link-graph", {
+        paths: files.map((f) => f.path),
+        neighbors: files.map((f) => Array.from(neighbors.get(f.path) || [])),
+        threshold,
+        minShared: MIN_SHARED_NEIGHBORS,
+        maxFanout: MAX_NEIGHBOR_FANOUT,
+    }, signal, stageProgress("comparing", onProgress));
 
-    for (let i = 0; i < files.length; i++) {
+    return pairs.map((pair): DuplicateCandidate => ({
+        file1: files[pair.index1],
+        file2: files[pair.index2],
+        titleSimilarity: titleSimilarity(files[pair.index1].basename, files[pair.index2].basename),
+        linkSimilarity: pair.score,
+        sharedNeighbors: pair.sharedNeighbors,
+    }));
+}
+
+/**
+ * Run similarity strategies over `files` and merge their matches.
+ *
+ * A pair proposed by several strategies becomes one candidate carrying every
+ * strategy's score in `scores` and their ids in `matchedBy`.  Word-Jaccard
+ * `titleSimilarity` is filled in for pairs no title strategy scored, so
+ * downstream sorting and display always have it.
+ */
+export async function findStrategyCandidates(
+    app: App,
+    files: TFile[],
+    settings: DuplicateReviewerSettings,
+    signal?: AbortSignal,
+    onProgress?: (progress: ScanProgress) => void,
+    strategies: SimilarityStrategy[] = getEnabledStrategies(settings),
+    signatures?: Map<string, FileSignature>
+): Promise<DuplicateCandidate[]> {
+    // "path1\0path2" (sorted) → merged candidate
+    const merged = new Map<string, DuplicateCandidate>();
+
+    for (const strategy of strategies) {
         if (signal?.aborted) break;
 
-        const file = files[i];
-        const words = wordSet(file.basename);
-        wordSets.set(i, words);
-
-        // Collect candidate indices: files already in the index that share ≥1 word
-        const candidateIndices = new Set<number>();
-        for (const w of words) {
-            const bucket = index.get(w);
-            if (bucket) {
-                for (const idx of bucket) {
-                    candidateIndices.add(idx);
-                }
-            }
+        const context = strategyContext(app, settings, strategy, signal, onProgress, signatures);
+        mergeMatches(merged, strategy.id, await strategy.findCandidates(files, context));
+    }
+
+    await scoreOtherCandidates(merged, strategies, (strategy) =>
+        strategyContext(app, settings, strategy, signal, onProgress, signatures)
+    );
+    return sortCandidates(Array.from(merged.values()));
+}
+
+/**
+ * Incremental `findStrategyCandidates`: only the pairs involving at least one
+ * `changed` file.  Returns null as soon as a strategy can't work that way, so
+ * the caller can fall back to a full scan.  When rescanning, pass the
+ * previous scan's `staleSignatures` so strategies can tell when the changes
+ * also moved pairs between unchanged files.
+ */
+export async function findChangedStrategyCandidates(
+    app: App,
+    changed: TFile[],
+    files: TFile[],
+    settings: DuplicateReviewerSettings,
+    signatures: Map<string, FileSignature>,
+    staleSignatures?: Map<string, FileSignature>,
+    signal?: AbortSignal,
+    onProgress?: (progress: ScanProgress) => void,
+    strategies: SimilarityStrategy[] = getEnabledStrategies(settings)
+): Promise<DuplicateCandidate[] | null> {
+    const merged = new Map<string, DuplicateCandidate>();
+
+    for (const strategy of strategies) {
+        if (signal?.aborted) break;
+        if (!strategy.findCandidatesFor) return null;
+
+        const context = strategyContext(app, settings, strategy, signal, onProgress, signatures, staleSignatures);
+        const matches = await strategy.findCandidatesFor(changed, files, context);
+        if (!matches) return null;
+        mergeMatches(merged, strategy.id, matches);
+    }
+
+    await scoreOtherCandidates(merged, strategies, (strategy) =>
+        strategyContext(app, settings, strategy, signal, onProgress, signatures)
+    );
+    return sortCandidates(Array.from(merged.values()));
+}
+
+function strategyContext(
+    app: App,
+    settings: DuplicateReviewerSettings,
+    strategy: SimilarityStrategy,
+    signal?: AbortSignal,
+    onProgress?: (progress: ScanProgress) => void,
+    signatures?: Map<string, FileSignature>,
+    staleSignatures?: Map<string, FileSignature>
+): StrategyContext {
+    return {
+        app,
+        settings,
+        threshold: getStrategyThreshold(settings, strategy.id),
+        signal,
+        onProgress,
+        signatures,
+        staleSignatures,
+    };
+}
+
+/**
+ * Let strategies flagged `scoresOtherCandidates` score the merged pairs they
+ * didn't propose themselves.  The score is recorded in `scores` (so it
+ * counts towards the pair's score) but not in `matchedBy`.
+ */
+async function scoreOtherCandidates(
+    merged: Map<string, DuplicateCandidate>,
+    strategies: SimilarityStrategy[],
+    contextFor: (strategy: SimilarityStrategy) => StrategyContext
+): Promise<void> {
+    for (const strategy of strategies) {
+        if (!strategy.scoresOtherCandidates) continue;
+        const context = contextFor(strategy);
+        for (const candidate of merged.values()) {
+            if (context.signal?.aborted) return;
+            if (candidate.matchedBy!.includes(strategy.id)) continue;
+            const score = await strategy.score(candidate.file1, candidate.file2, context);
+            if (score > 0) candidate.scores![strategy.id] = score;
         }
+    }
+}
 
-        // Score only the candidates
-        for (const j of candidateIndices) {
-            const otherWords = wordSets.get(j)!;
-            // Jaccard on pre-computed word sets (same logic as titleSimilarity)
-            let intersectionCount = 0;
-            for (const w of words) {
-                if (otherWords.has(w)) intersectionCount++;
-            }
-            const unionSize = words.size + otherWords.size - intersectionCount;
-            const sim = unionSize === 0 ? 0 : intersectionCount / unionSize;
-
-            if (sim >= titleThreshold) {
-                duplicates.push({
-                    file1: files[j],
-                    file2: file,
-                    titleSimilarity: sim,
-                });
-            }
+/**
+ * Fold one strategy's matches into `merged`.  Candidates are stored with the
+ * lower path as file1, so a pair looks the same whichever scan produced it.
+ */
+function mergeMatches(merged: Map<string, DuplicateCandidate>, strategyId: string, matches: StrategyMatch[]): void {
+    for (const match of matches) {
+        const key = pairKey(match.file1, match.file2);
+        const inOrder = match.file1.path < match.file2.path;
+        let candidate = merged.get(key);
+        if (!candidate) {
+            const [file1, file2] = inOrder ? [match.file1, match.file2] : [match.file2, match.file1];
+            candidate = {
+                file1,
+                file2,
+                titleSimilarity: titleSimilarity(file1.basename, file2.basename),
+                scores: {},
+                matchedBy: [],
+            };
+            merged.set(key, candidate);
+        }
+        if (match.details) {
+            Object.assign(candidate, inOrder ? match.details : swapPairDetails(match.details));
         }
+        candidate.scores![strategyId] = match.score;
+        candidate.matchedBy!.push(strategyId);
+    }
+}
 
-        // Insert this file into the index
-        for (const w of words) {
-            let bucket = index.get(w);
-            if (!bucket) {
-                bucket = [];
-                index.set(w, bucket);
-            }
-            bucket.push(i);
+/**
+ * Strongest first, ties broken by path, so the same pairs always come out in
+ * the same order whether a scan was full or incremental.
+ */
+export function sortCandidates(candidates: DuplicateCandidate[]): DuplicateCandidate[] {
+    const keyed = candidates.map((c) => ({ c, score: candidateScore(c), key: pairKey(c.file1, c.file2) }));
+    keyed.sort((a, b) => b.score - a.score || (a.key < b.key ? -1 : a.key > b.key ? 1 : 0));
+    return keyed.map((k) => k.c);
+}
+
+/** Mirror the per-file fields of a match reported in the opposite file order. */
+function swapPairDetails(details: Partial<DuplicateCandidate>): Partial<DuplicateCandidate> {
+    const swapped: Partial<DuplicateCandidate> = { ...details };
+    const pairs: [keyof DuplicateCandidate, keyof DuplicateCandidate][] = [
+        ["containment1In2", "containment2In1"],
+        ["titleVariant1", "titleVariant2"],
+    ];
+    for (const [a, b] of pairs) {
+        delete swapped[a];
+        delete swapped[b];
+        if (b in details) (swapped as Record<string, unknown>)[a] = details[b];
+        if (a in details) (swapped as Record<string, unknown>)[b] = details[a];
+    }
+    return swapped;
+}
+
+/** Order-independent key for a file pair. */
+export function pairKey(file1: TFile, file2: TFile): string {
+    return file1.path < file2.path
+        ? `${file1.path}\0${file2.path}`
+        : `${file2.path}\0${file1.path}`;
+}
+
+/** Order-independent key for a group of files, as `DuplicateGroup.id`. */
+export function groupId(files: TFile[]): string {
+    return files.map((f) => f.path).sort().join("\0");
+}
+
+// How far a supporting score (one from a strategy that didn't propose the
+// pair) closes the gap between the best score and 1
+const SUPPORTING_SCORE_WEIGHT = 0.5;
+
+/**
+ * Highest score any matching strategy gave a candidate, raised by supporting
+ * scores from strategies that didn't match it; content similarity, then
+ * title Jaccard, for candidates no strategy scored.
+ */
+export function candidateScore(candidate: DuplicateCandidate): number {
+    const scores = candidate.scores || {};
+    const matchedBy = candidate.matchedBy || Object.keys(scores);
+    if (matchedBy.length === 0) return candidate.contentSimilarity ?? candidate.titleSimilarity;
+
+    let score = Math.max(...matchedBy.map((id) => scores[id] ?? 0));
+    for (const [id, support] of Object.entries(scores)) {
+        if (!matchedBy.includes(id)) score += (1 - score) * support * SUPPORTING_SCORE_WEIGHT;
+    }
+    return score;
+}
+
+/**
+ * Content scores for each file pair, computed in the worker a batch at a
+ * time; null where either note couldn't be read.
+ */
+async function scoreFilePairs(
+    app: App,
+    pairs: [TFile, TFile][],
+    settings: DuplicateReviewerSettings,
+    signal?: AbortSignal,
+    onProgress?: (progress: ScanProgress) => void
+): Promise<(PairScores | null)[]> {
+    const results: (PairScores | null)[] = [];
+
+    for (let start = 0; start < pairs.length; start += PAIR_BATCH_SIZE) {
+        const batch = pairs.slice(start, start + PAIR_BATCH_SIZE);
+
+        // Each note once per batch, however many of its pairs are in it
+        const distinct = new Map<string, TFile>();
+        for (const [file1, file2] of batch) {
+            distinct.set(file1.path, file1);
+            distinct.set(file2.path, file2);
         }
+        const read = await readRawNotes(app, Array.from(distinct.values()));
+        const noteIndex = new Map(read.files.map((f, i) => [f.path, i]));
 
-        // Yield + progress every file
-        await yieldToEventLoop();
-        if (onProgress) {
-            onProgress({ stage: "comparing", current: i + 1, total: files.length });
+        const readable = batch.filter(([file1, file2]) => noteIndex.has(file1.path) && noteIndex.has(file2.path));
+        const scores = await runJob("score-pairs", {
+            notes: read.notes,
+            pairs: readable.map(([file1, file2]) => [noteIndex.get(file1.path)!, noteIndex.get(file2.path)!]),
+            plainText: plainTextOptions(settings),
+            compare: compareOptions(settings),
+        }, signal, stageProgress("refining", onProgress, start, pairs.length));
+
+        let next = 0;
+        for (const [file1, file2] of batch) {
+            results.push(noteIndex.has(file1.path) && noteIndex.has(file2.path) ? scores[next++] : null);
         }
     }
 
-    duplicates.sort((a, b) => b.titleSimilarity - a.titleSimilarity);
-    return duplicates;
+    return results;
 }
 
 /**
  * Refine duplicate candidates by adding content similarity scores.
+ * Candidates already carrying content scores (from the similar-content
+ * strategy or an earlier scan with the same settings) are not re-read.
  */
 export async function refineWithContent(
     app: App,
     candidates: DuplicateCandidate[],
-    contentThreshold: number,
-    maxChars: number,
+    settings: DuplicateReviewerSettings,
     signal?: AbortSignal,
     onProgress?: (progress: ScanProgress) => void
 ): Promise<DuplicateCandidate[]> {
-    const refined: DuplicateCandidate[] = [];
+    const toScore = candidates.filter((c) => c.contentSimilarity === undefined || c.likelyDuplicate === undefined);
+    const scores = await scoreFilePairs(
+        app,
+        toScore.map((c): [TFile, TFile] => [c.file1, c.file2]),
+        settings,
+        signal,
+        onProgress
+    );
+    const scored = new Map(toScore.map((c, i) => [c, scores[i]]));
 
-    for (let i = 0; i < candidates.length; i++) {
-        if (signal?.aborted) break;
+    const refined = candidates.map((item): DuplicateCandidate => {
+        if (!scored.has(item)) return item;
+        const content = scored.get(item);
+        return content
+            ? { ...item, ...content }
+            : { ...item, contentSimilarity: undefined, likelyDuplicate: false };
+    });
 
-        const item = candidates[i];
-        try {
-            const content1 = await app.vault.cachedRead(item.file1);
-            const content2 = await app.vault.cachedRead(item.file2);
+    refined.sort((a, b) => {
+        const scoreA = a.titleSimilarity + (a.contentSimilarity || 0);
+        const scoreB = b.titleSimilarity + (b.contentSimilarity || 0);
+        return scoreB - scoreA;
+    });
 
-            const cSim = contentSimilarity(content1, content2, maxChars);
+    return refined;
+}
 
-            refined.push({
-                ...item,
-                contentSimilarity: cSim,
-                likelyDuplicate: cSim >= contentThreshold,
-            });
-        } catch {
-            refined.push({
-                ...item,
-                contentSimilarity: undefined,
-                likelyDuplicate: false,
-            });
+/**
+ * Assemble a group from its members and internal candidates, recording each
+ * pair's score and picking as representative the member with the highest
+ * total score to the others (ties go to the shorter title).
+ */
+export function buildGroup(mode: ScanMode, files: TFile[], candidates: DuplicateCandidate[]): DuplicateGroup {
+    const pairScores = new Map<string, number>();
+    const totals = new Map<string, number>();
+    for (const c of candidates) {
+        const score = candidateScore(c);
+        pairScores.set(pairKey(c.file1, c.file2), score);
+        totals.set(c.file1.path, (totals.get(c.file1.path) || 0) + score);
+        totals.set(c.file2.path, (totals.get(c.file2.path) || 0) + score);
+    }
+
+    let representative = files[0];
+    for (const file of files) {
+        const diff = (totals.get(file.path) || 0) - (totals.get(representative.path) || 0);
+        if (diff > 0 || (diff === 0 && file.basename.length < representative.basename.length)) {
+            representative = file;
+        }
+    }
+    const representativeTitle = representative?.basename ?? "";
+
+    return {
+        id: groupId(files),
+        mode,
+        normalizedTitle: normalizeTitle(representativeTitle),
+        originalTitles: new Set(files.map((f) => f.basename)),
+        representativeTitle,
+        files,
+        candidates,
+        pairScores,
+    };
+}
+
+/**
+ * Cluster duplicate candidates so every file lands in exactly one group.
+ *
+ * Pairs are merged strongest first with union-find.  "single" linkage keeps
+ * every merge (connected components); the tighter linkages only join two
+ * clusters when the pairs between them pass the linkage's test, so a chain
+ * A~B~C of loosely related notes can stay split.  Candidates that end up
+ * between two clusters are dropped.
+ */
+export function groupDuplicates(
+    candidates: DuplicateCandidate[],
+    mode: ScanMode = "title",
+    options: Pick<DuplicateReviewerSettings, "clusterLinkage" | "clusterMinAverageScore"> = {
+        clusterLinkage: "single",
+        clusterMinAverageScore: 0,
+    }
+): DuplicateGroup[] {
+    const ordered = sortCandidates(candidates);
+    const scores = new Map<string, number>();
+    const filesByPath = new Map<string, TFile>();
+    for (const c of ordered) {
+        const key = pairKey(c.file1, c.file2);
+        scores.set(key, Math.max(scores.get(key) ?? 0, candidateScore(c)));
+        filesByPath.set(c.file1.path, c.file1);
+        filesByPath.set(c.file2.path, c.file2);
+    }
+
+    // union-find over paths; members are only tracked on roots
+    const parent = new Map<string, string>();
+    const members = new Map<string, TFile[]>();
+    for (const [path, file] of filesByPath) {
+        parent.set(path, path);
+        members.set(path, [file]);
+    }
+    const find = (path: string): string => {
+        let root = path;
+        while (parent.get(root) !== root) root = parent.get(root)!;
+        // path compression
+        while (parent.get(path) !== root) {
+            const next = parent.get(path)!;
+            parent.set(path, root);
+            path = next;
+        }
+        return root;
+    };
+
+    const canMerge = (a: TFile[], b: TFile[]): boolean => {
+        if (options.clusterLinkage === "single") return true;
+        let total = 0;
+        for (const f1 of a) {
+            for (const f2 of b) {
+                const score = scores.get(pairKey(f1, f2));
+                if (score === undefined && options.clusterLinkage === "complete") return false;
+                total += score ?? 0;
+            }
+        }
+        if (options.clusterLinkage === "complete") return true;
+
+        // Mean over every pair of the merged cluster, existing internal pairs included
+        const merged = [...a, ...b];
+        let pairCount = 0;
+        for (let i = 0; i < merged.length; i++) {
+            for (let j = i + 1; j < merged.length; j++) {
+                pairCount++;
+                if (i < a.length && j >= a.length) continue; // cross pair, already summed
+                total += scores.get(pairKey(merged[i], merged[j])) ?? 0;
+            }
         }
+        return total / pairCount >= options.clusterMinAverageScore;
+    };
 
-        await yieldToEventLoop();
+    for (const c of ordered) {
+        const root1 = find(c.file1.path);
+        const root2 = find(c.file2.path);
+        if (root1 === root2) continue;
+
+        const members1 = members.get(root1)!;
+        const members2 = members.get(root2)!;
+        if (!canMerge(members1, members2)) continue;
+
+        parent.set(root2, root1);
+        members.set(root1, members1.concat(members2));
+        members.delete(root2);
+    }
+
+    // Keep each candidate in the cluster holding both of its files
+    const clusterCandidates = new Map<string, DuplicateCandidate[]>();
+    for (const c of ordered) {
+        const root = find(c.file1.path);
+        if (root !== find(c.file2.path)) continue;
+        let list = clusterCandidates.get(root);
+        if (!list) {
+            list = [];
+            clusterCandidates.set(root, list);
+        }
+        list.push(c);
+    }
+
+    const groups: DuplicateGroup[] = [];
+    for (const [root, files] of members) {
+        if (files.length < 2) continue;
+        files.sort((a, b) => (a.path < b.path ? -1 : a.path > b.path ? 1 : 0));
+        groups.push(buildGroup(mode, files, clusterCandidates.get(root) || []));
+    }
+    groups.sort((a, b) => b.files.length - a.files.length);
+    return groups;
+}
+
+/**
+ * Fill in one signature field for every file that lacks it: notes are read
+ * here in batches and the worker computes the field from their content.
+ * Unreadable files are left without it.
+ */
+async function computeSignatures<K extends keyof FileSignature>(
+    app: App,
+    files: TFile[],
+    signatures: Map<string, FileSignature>,
+    field: K,
+    compute: (notes: RawNote[], onProgress?: (current: number, total: number) => void) => Promise<FileSignature[K][]>,
+    onProgress?: (progress: ScanProgress) => void
+): Promise<void> {
+    const missing = files.filter((f) => signatures.get(f.path)?.[field] === undefined);
+    const known = files.length - missing.length;
+
+    for (let start = 0; start < missing.length; start += NOTE_BATCH_SIZE) {
+        const read = await readRawNotes(app, missing.slice(start, start + NOTE_BATCH_SIZE));
+        const values = await compute(
+            read.notes,
+            stageProgress("hashing", onProgress, known + start, files.length)
+        );
+        read.files.forEach((file, i) => {
+            signatures.set(file.path, { ...signatures.get(file.path), [field]: values[i] });
+        });
         if (onProgress) {
-            onProgress({ stage: "refining", current: i + 1, total: candidates.length });
+            onProgress({
+                stage: "hashing",
+                current: known + Math.min(start + NOTE_BATCH_SIZE, missing.length),
+                total: files.length,
+            });
         }
     }
+}
 
-    refined.sort((a, b) => {
-        const scoreA = a.titleSimilarity + (a.contentSimilarity || 0);
-        const scoreB = b.titleSimilarity + (b.contentSimilarity || 0);
-        return scoreB - scoreA;
-    });
+/**
+ * Find notes whose bodies are identical after frontmatter removal and
+ * whitespace normalization, regardless of title.
+ *
+ * Every file is read once and the worker hashes its normalized body; files
+ * sharing a hash form one group.  Empty bodies are skipped so blank
+ * "Untitled" notes don't collapse into a single giant group.  Each group
+ * carries the pairwise candidates between its members so exclusions can be
+ * applied afterwards.
+ */
+export async function findExactContentDuplicates(
+    app: App,
+    files: TFile[],
+    signal?: AbortSignal,
+    onProgress?: (progress: ScanProgress) => void,
+    signatures: Map<string, FileSignature> = new Map()
+): Promise<DuplicateGroup[]> {
+    await computeSignatures(app, files, signatures, "bodyHash",
+        (notes, progress) => runJob("body-hash", { notes }, signal, progress), onProgress);
 
-    return refined;
+    // body hash → files with that hash
+    const buckets = new Map<string, TFile[]>();
+    for (const file of files) {
+        const hash = signatures.get(file.path)?.bodyHash;
+        if (!hash) continue;
+        let bucket = buckets.get(hash);
+        if (!bucket) {
+            bucket = [];
+            buckets.set(hash, bucket);
+        }
+        bucket.push(file);
+    }
+
+    const groups: DuplicateGroup[] = [];
+    for (const [hash, bucket] of buckets) {
+        if (bucket.length < 2) continue;
+
+        const candidates: DuplicateCandidate[] = [];
+        for (let a = 0; a < bucket.length; a++) {
+            for (let b = a + 1; b < bucket.length; b++) {
+                candidates.push({
+                    file1: bucket[a],
+                    file2: bucket[b],
+                    titleSimilarity: titleSimilarity(bucket[a].basename, bucket[b].basename),
+                    contentSimilarity: 1,
+                    likelyDuplicate: true,
+                });
+            }
+        }
+
+        groups.push({ ...buildGroup("exact-content", bucket, candidates), normalizedTitle: hash });
+    }
+
+    groups.sort((a, b) => b.files.length - a.files.length);
+    return groups;
 }
 
+// LSH buckets larger than this are boilerplate (templates, shared footers)
+// rather than a duplicate cluster; enumerating their pairs would be quadratic.
+const MAX_LSH_BUCKET_SIZE = 200;
+
 /**
- * Group duplicate candidates by normalized title.
+ * Find notes with similar bodies regardless of title, using MinHash + LSH.
+ *
+ * Pass 1 reads every file once and the worker builds its word-shingle set
+ * and MinHash signature.  The worker then drops each signature into one LSH
+ * bucket per band; files that share any bucket become candidate pairs.
+ * Pass 2 scores only those pairs with `contentSimilarity`, so the work stays
+ * near-linear in vault size.
+ *
+ * Signatures found in `signatures` are reused instead of reading the file,
+ * and new ones are added to it.  With `changed`, only pairs involving one of
+ * those paths are scored.  Buckets still span every file, but a change can
+ * push a bucket of unchanged notes over the size cap or back under it, which
+ * adds or drops pairs between them.  Given the previous signatures of the
+ * changed and removed files in `stale`, it returns null when that happens,
+ * so the caller can scan in full.
  */
-export function groupDuplicates(candidates: DuplicateCandidate[]): DuplicateGroup[] {
-    const titleGroups = new Map<string, DuplicateGroup>();
+export async function findNearContentDuplicates(
+    app: App,
+    files: TFile[],
+    settings: DuplicateReviewerSettings,
+    threshold: number,
+    signal?: AbortSignal,
+    onProgress?: (progress: ScanProgress) => void,
+    signatures: Map<string, FileSignature> = new Map(),
+    changed?: Set<string>,
+    stale?: Map<string, FileSignature>
+): Promise<DuplicateCandidate[] | null> {
+    const bands = settings.minHashBands;
+    const rows = settings.minHashRows;
 
-    for (const candidate of candidates) {
-        const normTitle = normalizeTitle(candidate.file1.basename);
+    await computeSignatures(app, files, signatures, "minHash", (notes, progress) => runJob("minhash", {
+        notes,
+        plainText: plainTextOptions(settings),
+        shingleSize: settings.shingleSize,
+        bands,
+        rows,
+    }, signal, progress), onProgress);
 
-        if (!titleGroups.has(normTitle)) {
-            titleGroups.set(normTitle, {
-                normalizedTitle: normTitle,
-                originalTitles: new Set(),
-                files: [],
-                candidates: [],
+    const indexPairs = await runJob("lsh", {
+        signatures: files.map((f) => signatures.get(f.path)?.minHash ?? null),
+        bands,
+        rows,
+        maxBucketSize: MAX_LSH_BUCKET_SIZE,
+        changed: changed && files.map((f) => changed.has(f.path)),
+        previous: stale && Array.from(stale.values(), (s) => s.minHash ?? []),
+    }, signal);
+    if (!indexPairs) return null;
+    const pairs = indexPairs.map(([a, b]): [TFile, TFile] => [files[a], files[b]]);
+
+    const scores = await scoreFilePairs(app, pairs, settings, signal, onProgress);
+
+    const duplicates: DuplicateCandidate[] = [];
+    pairs.forEach(([file1, file2], p) => {
+        const content = scores[p];
+        // Full mode also keeps subsets, whose Jaccard stays low however much they share
+        const subset = content?.likelyDuplicate && isSubsetPair(content);
+        if (content && ((content.contentSimilarity || 0) >= threshold || subset)) {
+            duplicates.push({
+                file1,
+                file2,
+                titleSimilarity: titleSimilarity(file1.basename, file2.basename),
+                ...content,
             });
         }
+    });
 
-        const group = titleGroups.get(normTitle)!;
-        group.originalTitles.add(candidate.file1.basename);
-        group.originalTitles.add(candidate.file2.basename);
-        group.candidates.push(candidate);
+    duplicates.sort((a, b) => (b.contentSimilarity || 0) - (a.contentSimilarity || 0));
+    return duplicates;
+}
+
+/**
+ * Find attachments with byte-identical content.
+ *
+ * Only files sharing a size can be identical, so files are bucketed by size
+ * first and just those in shared buckets are read and hashed (SHA-256).
+ * Each group records which notes link to or embed each of its files.
+ */
+export async function findAttachmentDuplicates(
+    app: App,
+    files: TFile[],
+    signal?: AbortSignal,
+    onProgress?: (progress: ScanProgress) => void
+): Promise<DuplicateGroup[]> {
+    const bySize = new Map<number, TFile[]>();
+    for (const file of files) {
+        let bucket = bySize.get(file.stat.size);
+        if (!bucket) {
+            bucket = [];
+            bySize.set(file.stat.size, bucket);
+        }
+        bucket.push(file);
+    }
+    const toHash = Array.from(bySize.values()).filter((b) => b.length > 1).flat();
+
+    // content hash → files with that hash
+    const buckets = new Map<string, TFile[]>();
+    for (let i = 0; i < toHash.length; i++) {
+        if (signal?.aborted) return [];
+
+        const file = toHash[i];
+        try {
+            const hash = `${file.stat.size}:${await hashBinary(await app.vault.readBinary(file))}`;
+            let bucket = buckets.get(hash);
+            if (!bucket) {
+                bucket = [];
+                buckets.set(hash, bucket);
+            }
+            bucket.push(file);
+        } catch {
+            // Unreadable file — leave it out of the comparison
+        }
 
-        if (!group.files.some((f) => f.path === candidate.file1.path)) {
-            group.files.push(candidate.file1);
+        if (onProgress) {
+            onProgress({ stage: "hashing", current: i + 1, total: toHash.length });
         }
-        if (!group.files.some((f) => f.path === candidate.file2.path)) {
-            group.files.push(candidate.file2);
+    }
+
+    const duplicates = Array.from(buckets.values()).filter((b) => b.length > 1);
+    const references = findReferences(app, duplicates.flat());
+
+    const groups: DuplicateGroup[] = [];
+    for (const bucket of duplicates) {
+        const candidates: DuplicateCandidate[] = [];
+        for (let a = 0; a < bucket.length; a++) {
+            for (let b = a + 1; b < bucket.length; b++) {
+                candidates.push({
+                    file1: bucket[a],
+                    file2: bucket[b],
+                    titleSimilarity: titleSimilarity(bucket[a].basename, bucket[b].basename),
+                    contentSimilarity: 1,
+                    likelyDuplicate: true,
+                });
+            }
         }
+        groups.push({
+            ...buildGroup("attachment", bucket, candidates),
+            references: new Map(bucket.map((f) => [f.path, references.get(f.path) || []])),
+        });
     }
 
-    const groups = Array.from(titleGroups.values());
     groups.sort((a, b) => b.files.length - a.files.length);
     return groups;
 }
@@ -326,10 +1199,43 @@ export function filterExcludedCandidates(
     });
 }
 
+/**
+ * Apply exclusions to pre-built groups: drop excluded pairs, then keep only
+ * files that still pair with someone.  Groups left with <2 files disappear;
+ * the rest keep their key and any fields `buildGroup` doesn't set.
+ */
+export function filterExcludedGroups(
+    groups: DuplicateGroup[],
+    exclusionMap: Map<string, Set<string>>
+): DuplicateGroup[] {
+    const result: DuplicateGroup[] = [];
+    for (const group of groups) {
+        const candidates = filterExcludedCandidates(group.candidates, exclusionMap);
+        const paths = new Set<string>();
+        for (const c of candidates) {
+            paths.add(c.file1.path);
+            paths.add(c.file2.path);
+        }
+        const files = group.files.filter((f) => paths.has(f.path));
+        if (files.length < 2) continue;
+
+        result.push({
+            ...group,
+            ...buildGroup(group.mode, files, candidates),
+            normalizedTitle: group.normalizedTitle,
+        });
+    }
+    return result;
+}
+
 // ── full scan ──────────────────────────────────────────────────────────────
 
 /**
  * Full scan for duplicates in a folder.
+ *
+ * With `previous`, only pairs involving a changed file are recomputed and the
+ * rest are carried over; if an enabled strategy can't work incrementally the
+ * scan runs in full.  Either way the groups match a full scan.
  */
 export async function scanForDuplicates(
     app: App,
@@ -337,49 +1243,328 @@ export async function scanForDuplicates(
     settings: DuplicateReviewerSettings,
     refine: boolean = true,
     signal?: AbortSignal,
-    onProgress?: (progress: ScanProgress) => void
-): Promise<DuplicateGroup[]> {
+    onProgress?: (progress: ScanProgress) => void,
+    previous?: PreviousScan | null
+): Promise<ScanResult> {
     const files = collectMarkdownFiles(app, folder, settings.ignoredFolders);
+    const signatures = new Map(previous?.signatures);
 
     if (files.length < 2) {
-        return [];
+        return { groups: [], pairs: [], signatures };
     }
 
     if (onProgress) {
         onProgress({ stage: "collecting", current: files.length, total: files.length });
     }
 
-    let candidates = await findTitleDuplicates(
-        files,
-        settings.titleSimilarityThreshold,
-        signal,
-        onProgress
-    );
+    let pairs: DuplicateCandidate[] | null = null;
+    if (previous) {
+        const changed = files.filter((f) => previous.changed.has(f.path));
+        const fresh = await findChangedStrategyCandidates(
+            app, changed, files, settings, signatures, previous.staleSignatures, signal, onProgress
+        );
+        if (fresh) pairs = sortCandidates(previous.pairs.concat(fresh));
+    }
+    if (!pairs) {
+        pairs = await findStrategyCandidates(app, files, settings, signal, onProgress, undefined, signatures);
+    }
 
-    if (signal?.aborted) return [];
+    if (signal?.aborted) return { groups: [], pairs: [], signatures };
 
     // Filter out pairs excluded via frontmatter before any content I/O
     const exclusionMap = buildExclusionMap(app, files);
-    candidates = filterExcludedCandidates(candidates, exclusionMap);
+    let candidates = filterExcludedCandidates(pairs, exclusionMap);
 
     if (refine && candidates.length > 0) {
-        candidates = await refineWithContent(
-            app,
-            candidates,
-            settings.contentSimilarityThreshold,
-            settings.contentCharsToAnalyze,
-            signal,
-            onProgress
+        candidates = await refineWithContent(app, candidates, settings, signal, onProgress);
+
+        // Keep the content scores on the stored pairs so a rescan needn't re-read them
+        const refined = new Map(candidates.map((c) => [pairKey(c.file1, c.file2), c]));
+        pairs = pairs.map((c) => refined.get(pairKey(c.file1, c.file2)) ?? c);
+    }
+
+    if (signal?.aborted) return { groups: [], pairs: [], signatures };
+
+    if (onProgress) {
+        onProgress({ stage: "grouping", current: 0, total: candidates.length });
+    }
+
+    const groups = groupDuplicates(candidates, "title", settings);
+
+    if (onProgress) {
+        onProgress({ stage: "done", current: groups.length, total: groups.length });
+    }
+
+    return { groups, pairs, signatures };
+}
+
+/**
+ * Full scan for notes with identical bodies in a folder.  Body hashes of
+ * files unchanged since `previous` are reused rather than re-read.
+ */
+export async function scanForExactDuplicates(
+    app: App,
+    folder: TFolder,
+    settings: DuplicateReviewerSettings,
+    signal?: AbortSignal,
+    onProgress?: (progress: ScanProgress) => void,
+    previous?: PreviousScan | null
+): Promise<ScanResult> {
+    const files = collectMarkdownFiles(app, folder, settings.ignoredFolders);
+    const signatures = new Map(previous?.signatures);
+
+    if (files.length < 2) {
+        return { groups: [], pairs: [], signatures };
+    }
+
+    if (onProgress) {
+        onProgress({ stage: "collecting", current: files.length, total: files.length });
+    }
+
+    let groups = await findExactContentDuplicates(app, files, signal, onProgress, signatures);
+
+    if (signal?.aborted) return { groups: [], pairs: [], signatures };
+
+    const pairs = groups.flatMap((g) => g.candidates);
+
+    if (onProgress) {
+        onProgress({ stage: "grouping", current: 0, total: groups.length });
+    }
+
+    const exclusionMap = buildExclusionMap(app, files);
+    groups = filterExcludedGroups(groups, exclusionMap);
+
+    if (onProgress) {
+        onProgress({ stage: "done", current: groups.length, total: groups.length });
+    }
+
+    return { groups, pairs, signatures };
+}
+
+/**
+ * Full scan for notes with similar bodies in a folder, independent of titles.
+ * With `previous`, MinHash signatures of unchanged files are reused and only
+ * pairs involving a changed file are re-scored, unless the changes moved
+ * pairs between unchanged files too; then every pair is.
+ */
+export async function scanForNearDuplicates(
+    app: App,
+    folder: TFolder,
+    settings: DuplicateReviewerSettings,
+    signal?: AbortSignal,
+    onProgress?: (progress: ScanProgress) => void,
+    previous?: PreviousScan | null
+): Promise<ScanResult> {
+    const files = collectMarkdownFiles(app, folder, settings.ignoredFolders);
+    const signatures = new Map(previous?.signatures);
+
+    if (files.length < 2) {
+        return { groups: [], pairs: [], signatures };
+    }
+
+    if (onProgress) {
+        onProgress({ stage: "collecting", current: files.length, total: files.length });
+    }
+
+    const threshold = getStrategyThreshold(settings, "similar-content");
+    let pairs: DuplicateCandidate[] | null = null;
+    if (previous) {
+        const fresh = await findNearContentDuplicates(
+            app, files, settings, threshold, signal, onProgress, signatures, previous.changed, previous.staleSignatures
         );
+        if (fresh) pairs = sortCandidates(previous.pairs.concat(fresh));
+    }
+    if (!pairs) {
+        // Only incremental runs come back null
+        const all = await findNearContentDuplicates(app, files, settings, threshold, signal, onProgress, signatures);
+        pairs = sortCandidates(all ?? []);
+    }
+
+    if (signal?.aborted) return { groups: [], pairs: [], signatures };
+
+    const exclusionMap = buildExclusionMap(app, files);
+    const candidates = filterExcludedCandidates(pairs, exclusionMap);
+
+    if (onProgress) {
+        onProgress({ stage: "grouping", current: 0, total: candidates.length });
+    }
+
+    const groups = groupDuplicates(candidates, "near-content", settings);
+
+    if (onProgress) {
+        onProgress({ stage: "done", current: groups.length, total: groups.length });
+    }
+
+    return { groups, pairs, signatures };
+}
+
+/**
+ * The scan mode that describes how a group's pairs were found: near-content
+ * when the similar-content strategy alone proposed all of them, otherwise
+ * title, where the view labels any other strategies from `matchedBy`.
+ */
+function modeFromStrategies(candidates: DuplicateCandidate[]): ScanMode {
+    const contentOnly = candidates.length > 0 && candidates.every(
+        (c) => c.matchedBy?.length && c.matchedBy.every((id) => id === "similar-content")
+    );
+    return contentOnly ? "near-content" : "title";
+}
+
+/**
+ * One group per source note, holding it and every note from the other side
+ * it matched, strongest match first.  A note matching several source notes
+ * appears in each of their groups.
+ */
+export function groupBySourceNote(candidates: DuplicateCandidate[], sourcePaths: Set<string>): DuplicateGroup[] {
+    // source path → the source note and its candidates, strongest first
+    const bySource = new Map<string, { source: TFile; candidates: DuplicateCandidate[] }>();
+    for (const c of sortCandidates(candidates)) {
+        const source = sourcePaths.has(c.file1.path) ? c.file1 : c.file2;
+        let entry = bySource.get(source.path);
+        if (!entry) {
+            entry = { source, candidates: [] };
+            bySource.set(source.path, entry);
+        }
+        entry.candidates.push(c);
+    }
+
+    const groups: DuplicateGroup[] = [];
+    for (const { source, candidates: own } of bySource.values()) {
+        const matches = own.map((c) => (c.file1 === source ? c.file2 : c.file1));
+        groups.push({
+            ...buildGroup(modeFromStrategies(own), [source, ...matches], own),
+            normalizedTitle: normalizeTitle(source.basename),
+            representativeTitle: source.basename,
+            sourceFile: source,
+        });
+    }
+    groups.sort((a, b) => b.files.length - a.files.length);
+    return groups;
+}
+
+/**
+ * Candidate pairs with one note from `sourceFiles` and one from
+ * `targetFiles` (the two must not overlap), after exclusions and, with
+ * `refine`, content scoring.  Runs the same strategies as
+ * `scanForDuplicates`, narrowed to pairs involving a source note where the
+ * strategies allow it.
+ */
+async function findCrossCandidates(
+    app: App,
+    sourceFiles: TFile[],
+    targetFiles: TFile[],
+    settings: DuplicateReviewerSettings,
+    refine: boolean,
+    signal?: AbortSignal,
+    onProgress?: (progress: ScanProgress) => void
+): Promise<DuplicateCandidate[]> {
+    const sourcePaths = new Set(sourceFiles.map((f) => f.path));
+    const files = sourceFiles.concat(targetFiles);
+
+    if (onProgress) {
+        onProgress({ stage: "collecting", current: files.length, total: files.length });
     }
 
+    // Pairs involving a source note, as an incremental scan would find them;
+    // strategies that can't narrow their search scan everything
+    const signatures = new Map<string, FileSignature>();
+    const pairs = await findChangedStrategyCandidates(
+        app, sourceFiles, files, settings, signatures, undefined, signal, onProgress
+    ) ?? await findStrategyCandidates(app, files, settings, signal, onProgress, undefined, signatures);
+
     if (signal?.aborted) return [];
 
+    const crossPairs = pairs.filter((c) => sourcePaths.has(c.file1.path) !== sourcePaths.has(c.file2.path));
+    const exclusionMap = buildExclusionMap(app, files);
+    let candidates = filterExcludedCandidates(crossPairs, exclusionMap);
+
+    if (refine && candidates.length > 0) {
+        candidates = await refineWithContent(app, candidates, settings, signal, onProgress);
+    }
+
+    return signal?.aborted ? [] : candidates;
+}
+
+/**
+ * Compare two folders: report only pairs with one note in `source` and the
+ * other in `target`, grouped by source note.  Notes inside both folders
+ * (one nested in the other) count as source notes.
+ */
+export async function scanForCrossFolderDuplicates(
+    app: App,
+    source: TFolder,
+    target: TFolder,
+    settings: DuplicateReviewerSettings,
+    refine: boolean = true,
+    signal?: AbortSignal,
+    onProgress?: (progress: ScanProgress) => void
+): Promise<DuplicateGroup[]> {
+    const sourceFiles = collectMarkdownFiles(app, source, settings.ignoredFolders);
+    const sourcePaths = new Set(sourceFiles.map((f) => f.path));
+    const targetFiles = collectMarkdownFiles(app, target, settings.ignoredFolders)
+        .filter((f) => !sourcePaths.has(f.path));
+
+    if (sourceFiles.length === 0 || targetFiles.length === 0) return [];
+
+    const candidates = await findCrossCandidates(app, sourceFiles, targetFiles, settings, refine, signal, onProgress);
+
     if (onProgress) {
         onProgress({ stage: "grouping", current: 0, total: candidates.length });
     }
 
-    const groups = groupDuplicates(candidates);
+    const groups = groupBySourceNote(candidates, sourcePaths);
+
+    if (onProgress) {
+        onProgress({ stage: "done", current: groups.length, total: groups.length });
+    }
+
+    return groups;
+}
+
+/**
+ * Find the notes anywhere in the vault that match `file`: a single group
+ * holding it and its matches, strongest first, or none when nothing matches.
+ */
+export async function scanForNoteDuplicates(
+    app: App,
+    file: TFile,
+    settings: DuplicateReviewerSettings,
+    refine: boolean = true,
+    signal?: AbortSignal,
+    onProgress?: (progress: ScanProgress) => void
+): Promise<DuplicateGroup[]> {
+    const others = collectMarkdownFiles(app, app.vault.getRoot(), settings.ignoredFolders)
+        .filter((f) => f.path !== file.path);
+
+    const candidates = await findCrossCandidates(app, [file], others, settings, refine, signal, onProgress);
+    const groups = groupBySourceNote(candidates, new Set([file.path]));
+
+    if (onProgress) {
+        onProgress({ stage: "done", current: groups.length, total: groups.length });
+    }
+
+    return groups;
+}
+
+/**
+ * Full scan for identical attachments in a folder.  Not cached: the cache
+ * only tracks changes to notes.  Exclusions don't apply, as attachments have
+ * no frontmatter.
+ */
+export async function scanForAttachmentDuplicates(
+    app: App,
+    folder: TFolder,
+    settings: DuplicateReviewerSettings,
+    signal?: AbortSignal,
+    onProgress?: (progress: ScanProgress) => void
+): Promise<DuplicateGroup[]> {
+    const files = collectAttachmentFiles(app, folder, settings.ignoredFolders);
+
+    if (onProgress) {
+        onProgress({ stage: "collecting", current: files.length, total: files.length });
+    }
+
+    const groups = await findAttachmentDuplicates(app, files, signal, onProgress);
 
     if (onProgress) {
         onProgress({ stage: "done", current: groups.length, total: groups.length });
@@ -1,9 +1,43 @@
 import { App, PluginSettingTab, Setting } from "obsidian";
 import type DuplicateReviewerPlugin from "./main";
-import { DuplicateReviewerSettings, DEFAULT_SETTINGS } from "./types";
+import {
+    ClusterLinkage,
+    ContentComparisonMode,
+    DuplicateReviewerSettings,
+    DEFAULT_SETTINGS,
+    KeepRuleType,
+    TitleRewriteRule,
+} from "./types";
+import { getStrategies, getStrategyThreshold } from "./strategies/registry";
+import { compileRewriteRule, normalizeTitle } from "./similarity";
+import { KEEP_RULE_LABELS } from "./actions/keepRules";
+
+// One-click starting points for common vault naming schemes
+const TITLE_RULE_PRESETS: { name: string; rule: TitleRewriteRule }[] = [
+    {
+        name: "Zettelkasten timestamp (202403121530 Title)",
+        rule: { pattern: "^\\d{12,14}\\s+", replacement: "", flags: "", enabled: true },
+    },
+    {
+        name: "Johnny.Decimal ID (12.04 Title, 10-19 Area)",
+        rule: { pattern: "^\\d{2}(\\.\\d{2}|-\\d{2})\\s+", replacement: "", flags: "", enabled: true },
+    },
+    {
+        name: "Emoji prefix",
+        rule: { pattern: "^[\\p{Extended_Pictographic}\\uFE0F\\u200D\\s]+", replacement: "", flags: "u", enabled: true },
+    },
+    {
+        name: "\"(copy)\" suffix",
+        rule: { pattern: "\\s*\\(copy(\\s*\\d+)?\\)$", replacement: "", flags: "i", enabled: true },
+    },
+];
+
+type NumericSettingKey = "shingleSize" | "minHashBands" | "minHashRows";
 
 export class DuplicateReviewerSettingTab extends PluginSettingTab {
     plugin: DuplicateReviewerPlugin;
+    // Sample title for the normalization preview (not persisted)
+    private previewTitle: string = "202403121530 Meeting notes (copy)";
 
     constructor(app: App, plugin: DuplicateReviewerPlugin) {
         super(app, plugin);
@@ -17,51 +51,202 @@ export class DuplicateReviewerSettingTab extends PluginSettingTab {
 
         containerEl.createEl("h2", { text: "Duplicate Reviewer Settings" });
 
-        // Similarity Thresholds Section
-        containerEl.createEl("h3", { text: "Similarity Thresholds" });
+        // Similarity Strategies Section
+        containerEl.createEl("h3", { text: "Similarity Strategies" });
+
+        containerEl.createDiv({
+            cls: "duplicate-review-setting-desc",
+            text: "Duplicate scans run every enabled strategy and merge their matches. "
+                + "Each slider sets the minimum similarity (0-100%) for that strategy to report a pair.",
+        });
+
+        for (const strategy of getStrategies()) {
+            new Setting(containerEl)
+                .setName(strategy.name)
+                .setDesc(strategy.description)
+                .addSlider((slider) =>
+                    slider
+                        .setLimits(30, 100, 5)
+                        .setValue(getStrategyThreshold(this.plugin.settings, strategy.id) * 100)
+                        .setDynamicTooltip()
+                        .onChange(async (value) => {
+                            this.plugin.settings.strategyThresholds[strategy.id] = value / 100;
+                            await this.plugin.saveSettings();
+                        })
+                )
+                .addToggle((toggle) =>
+                    toggle
+                        .setValue(this.plugin.settings.enabledStrategies.includes(strategy.id))
+                        .onChange(async (value) => {
+                            const enabled = this.plugin.settings.enabledStrategies.filter(
+                                (id) => id !== strategy.id
+                            );
+                            if (value) enabled.push(strategy.id);
+                            this.plugin.settings.enabledStrategies = enabled;
+                            await this.plugin.saveSettings();
+                        })
+                );
+        }
 
         new Setting(containerEl)
-            .setName("Title similarity threshold")
-            .setDesc("Minimum title similarity (0-100%) to consider as potential duplicate")
-            .addSlider((slider) =>
-                slider
-                    .setLimits(50, 100, 5)
-                    .setValue(this.plugin.settings.titleSimilarityThreshold * 100)
-                    .setDynamicTooltip()
+            .setName("Identifier properties")
+            .setDesc("Frontmatter properties the metadata strategy treats as identifiers (comma-separated). "
+                + "Notes sharing a value for any of them are flagged as likely duplicates.")
+            .addText((text) =>
+                text
+                    .setPlaceholder(DEFAULT_SETTINGS.metadataIdentifierKeys.join(", "))
+                    .setValue(this.plugin.settings.metadataIdentifierKeys.join(", "))
                     .onChange(async (value) => {
-                        this.plugin.settings.titleSimilarityThreshold = value / 100;
+                        this.plugin.settings.metadataIdentifierKeys = value
+                            .split(",")
+                            .map((s) => s.trim())
+                            .filter(Boolean);
                         await this.plugin.saveSettings();
                     })
             );
 
         new Setting(containerEl)
-            .setName("Enable content similarity checking")
-            .setDesc("Compare file content in addition to titles when looking for duplicates")
-            .addToggle((toggle) =>
-                toggle
-                    .setValue(this.plugin.settings.enableContentSimilarity)
+            .setName("Grouping")
+            .setDesc("How matched pairs are joined into groups. Every note appears in at most one group.")
+            .addDropdown((dropdown) =>
+                dropdown
+                    .addOption("single", "Chain matches (A~B, B~C → one group)")
+                    .addOption("complete", "Strict (every pair must match)")
+                    .addOption("average", "Average score")
+                    .setValue(this.plugin.settings.clusterLinkage)
                     .onChange(async (value) => {
-                        this.plugin.settings.enableContentSimilarity = value;
+                        this.plugin.settings.clusterLinkage = value as ClusterLinkage;
                         await this.plugin.saveSettings();
                         this.display();
                     })
             );
 
-        if (this.plugin.settings.enableContentSimilarity) {
+        if (this.plugin.settings.clusterLinkage === "average") {
             new Setting(containerEl)
-                .setName("Content similarity threshold")
-                .setDesc("Minimum content similarity (0-100%) to flag as likely duplicate")
+                .setName("Minimum average group score")
+                .setDesc("Groups only grow while the mean score of all their pairs (unmatched pairs count as 0) stays above this")
                 .addSlider((slider) =>
                     slider
                         .setLimits(30, 100, 5)
-                        .setValue(this.plugin.settings.contentSimilarityThreshold * 100)
+                        .setValue(this.plugin.settings.clusterMinAverageScore * 100)
                         .setDynamicTooltip()
                         .onChange(async (value) => {
-                            this.plugin.settings.contentSimilarityThreshold = value / 100;
+                            this.plugin.settings.clusterMinAverageScore = value / 100;
                             await this.plugin.saveSettings();
                         })
                 );
+        }
+
+        // Text Processing Section
+        containerEl.createEl("h3", { text: "Text Processing" });
+
+        new Setting(containerEl)
+            .setName("Fold diacritics")
+            .setDesc("Treat accented letters as their base letter (\"Café\" = \"Cafe\") in titles and content")
+            .addToggle((toggle) =>
+                toggle
+                    .setValue(this.plugin.settings.foldDiacritics)
+                    .onChange(async (value) => {
+                        this.plugin.settings.foldDiacritics = value;
+                        await this.plugin.saveSettings();
+                        this.display();
+                    })
+            );
+
+        new Setting(containerEl)
+            .setName("Weight title words by rarity")
+            .setDesc("Rare words count more than common ones, so \"Meeting with Alice\" and \"Meeting with Bob\" no longer look alike")
+            .addToggle((toggle) =>
+                toggle
+                    .setValue(this.plugin.settings.titleWeighting === "idf")
+                    .onChange(async (value) => {
+                        this.plugin.settings.titleWeighting = value ? "idf" : "none";
+                        await this.plugin.saveSettings();
+                    })
+            );
 
+        new Setting(containerEl)
+            .setName("Skip very common title words")
+            .setDesc("Faster on large vaults: titles are only paired through words that appear in few titles. "
+                + "May miss pairs that share nothing but common words.")
+            .addToggle((toggle) =>
+                toggle
+                    .setValue(this.plugin.settings.pruneCommonTitleWords)
+                    .onChange(async (value) => {
+                        this.plugin.settings.pruneCommonTitleWords = value;
+                        await this.plugin.saveSettings();
+                    })
+            );
+
+        new Setting(containerEl)
+            .setName("Match aliases and headings")
+            .setDesc("Also compare each note's frontmatter aliases and first # heading, not just its filename")
+            .addToggle((toggle) =>
+                toggle
+                    .setValue(this.plugin.settings.matchAliases)
+                    .onChange(async (value) => {
+                        this.plugin.settings.matchAliases = value;
+                        await this.plugin.saveSettings();
+                    })
+            );
+
+        // Title Normalization Section
+        containerEl.createEl("h3", { text: "Title Normalization" });
+
+        containerEl.createDiv({
+            cls: "duplicate-review-setting-desc",
+            text: "Regex rewrites applied to every title, in order, before comparison. "
+                + "Built-in stripping of \"EAD0001\" and \"250.25\" prefixes still runs afterwards.",
+        });
+
+        this.renderTitleRules(containerEl);
+
+        // Content Similarity Section
+        containerEl.createEl("h3", { text: "Content Similarity" });
+
+        new Setting(containerEl)
+            .setName("Enable content similarity checking")
+            .setDesc("Compare file content in addition to titles when looking for duplicates")
+            .addToggle((toggle) =>
+                toggle
+                    .setValue(this.plugin.settings.enableContentSimilarity)
+                    .onChange(async (value) => {
+                        this.plugin.settings.enableContentSimilarity = value;
+                        await this.plugin.saveSettings();
+                        this.display();
+                    })
+            );
+
+        new Setting(containerEl)
+            .setName("Content similarity threshold")
+            .setDesc("Minimum content similarity (0-100%) to flag as likely duplicate")
+            .addSlider((slider) =>
+                slider
+                    .setLimits(30, 100, 5)
+                    .setValue(this.plugin.settings.contentSimilarityThreshold * 100)
+                    .setDynamicTooltip()
+                    .onChange(async (value) => {
+                        this.plugin.settings.contentSimilarityThreshold = value / 100;
+                        await this.plugin.saveSettings();
+                    })
+            );
+
+        new Setting(containerEl)
+            .setName("Content comparison")
+            .setDesc("Compare the start of each note, or the whole note including which note contains the other")
+            .addDropdown((dropdown) =>
+                dropdown
+                    .addOption("prefix", "First N characters")
+                    .addOption("full", "Whole note")
+                    .setValue(this.plugin.settings.contentComparisonMode)
+                    .onChange(async (value) => {
+                        this.plugin.settings.contentComparisonMode = value as ContentComparisonMode;
+                        await this.plugin.saveSettings();
+                        this.display();
+                    })
+            );
+
+        if (this.plugin.settings.contentComparisonMode === "prefix") {
             new Setting(containerEl)
                 .setName("Content characters to analyze")
                 .setDesc("Number of characters from the start of each file to compare")
@@ -79,6 +264,43 @@ export class DuplicateReviewerSettingTab extends PluginSettingTab {
                 );
         }
 
+        new Setting(containerEl)
+            .setName("Ignore code blocks")
+            .setDesc("Drop fenced code blocks when comparing content")
+            .addToggle((toggle) =>
+                toggle
+                    .setValue(this.plugin.settings.dropCodeBlocks)
+                    .onChange(async (value) => {
+                        this.plugin.settings.dropCodeBlocks = value;
+                        await this.plugin.saveSettings();
+                    })
+            );
+
+        new Setting(containerEl)
+            .setName("Ignore embeds")
+            .setDesc("Drop embedded notes and images when comparing content")
+            .addToggle((toggle) =>
+                toggle
+                    .setValue(this.plugin.settings.dropEmbeds)
+                    .onChange(async (value) => {
+                        this.plugin.settings.dropEmbeds = value;
+                        await this.plugin.saveSettings();
+                    })
+            );
+
+        // Similar-Content Scan Section
+        containerEl.createEl("h3", { text: "Similar-Content Scan" });
+
+        containerEl.createDiv({
+            cls: "duplicate-review-setting-desc",
+            text: "The similar-content scan compares note bodies across the whole folder regardless of title. "
+                + "More bands with fewer rows finds more candidates at the cost of speed.",
+        });
+
+        this.addPositiveIntSetting(containerEl, "Shingle size", "Number of consecutive words per shingle", "shingleSize");
+        this.addPositiveIntSetting(containerEl, "LSH bands", "Number of MinHash bands used to bucket notes", "minHashBands");
+        this.addPositiveIntSetting(containerEl, "Rows per band", "MinHash values per band (a bucket match requires all rows to agree)", "minHashRows");
+
         // Folders Section
         containerEl.createEl("h3", { text: "Folders" });
 
@@ -135,6 +357,33 @@ export class DuplicateReviewerSettingTab extends PluginSettingTab {
                     })
             );
 
+        // Automatic Resolution Section
+        containerEl.createEl("h3", { text: "Automatic Resolution" });
+
+        containerEl.createDiv({
+            cls: "duplicate-review-setting-desc",
+            text: "Auto-resolve keeps one file per group when every enabled rule that can pick a file picks the same one. "
+                + "Groups where rules disagree, or none can decide, are left for manual review.",
+        });
+
+        this.renderKeepRules(containerEl);
+
+        // New Notes Section
+        containerEl.createEl("h3", { text: "New Notes" });
+
+        new Setting(containerEl)
+            .setName("Warn about duplicate titles")
+            .setDesc("When a note is created or renamed, show a notice if its title matches an existing note "
+                + "(using the title threshold; needs the title strategy enabled)")
+            .addToggle((toggle) =>
+                toggle
+                    .setValue(this.plugin.settings.warnOnDuplicateTitle)
+                    .onChange(async (value) => {
+                        this.plugin.settings.warnOnDuplicateTitle = value;
+                        await this.plugin.saveSettings();
+                    })
+            );
+
         // Exclusions Section
         containerEl.createEl("h3", { text: "Exclusions" });
 
@@ -197,4 +446,241 @@ export class DuplicateReviewerSettingTab extends PluginSettingTab {
                     })
             );
     }
+
+    /** Text input for a positive integer setting; invalid input is ignored. */
+    private addPositiveIntSetting(
+        containerEl: HTMLElement,
+        name: string,
+        desc: string,
+        key: NumericSettingKey
+    ): void {
+        new Setting(containerEl)
+            .setName(name)
+            .setDesc(desc)
+            .addText((text) =>
+                text
+                    .setPlaceholder(String(DEFAULT_SETTINGS[key]))
+                    .setValue(String(this.plugin.settings[key]))
+                    .onChange(async (value) => {
+                        const num = parseInt(value, 10);
+                        if (!isNaN(num) && num > 0) {
+                            this.plugin.settings[key] = num;
+                            await this.plugin.saveSettings();
+                        }
+                    })
+            );
+    }
+
+    /** Keep rules with their parameters, and a control to add one. */
+    private renderKeepRules(containerEl: HTMLElement): void {
+        const rules = this.plugin.settings.keepRules;
+        const saveRules = async () => {
+            this.plugin.settings.keepRules = rules;
+            await this.plugin.saveSettings();
+        };
+
+        rules.forEach((rule, index) => {
+            const setting = new Setting(containerEl).setName(KEEP_RULE_LABELS[rule.type]);
+
+            if (rule.type === "folder-order") {
+                setting.setDesc("Keep the file in the earliest of these folders (comma-separated)");
+                setting.addText((text) =>
+                    text
+                        .setPlaceholder("Notes, Archive, Inbox")
+                        .setValue((rule.folders || []).join(", "))
+                        .onChange(async (value) => {
+                            rule.folders = value.split(",").map((s) => s.trim()).filter(Boolean);
+                            await saveRules();
+                        })
+                );
+            } else if (rule.type === "has-key") {
+                setting.setDesc("Keep the only file whose frontmatter has this property");
+                setting.addText((text) =>
+                    text
+                        .setPlaceholder("status")
+                        .setValue(rule.key || "")
+                        .onChange(async (value) => {
+                            rule.key = value.trim();
+                            await saveRules();
+                        })
+                );
+            }
+
+            setting
+                .addToggle((toggle) =>
+                    toggle
+                        .setTooltip("Enabled")
+                        .setValue(rule.enabled)
+                        .onChange(async (value) => {
+                            rule.enabled = value;
+                            await saveRules();
+                        })
+                )
+                .addExtraButton((button) =>
+                    button
+                        .setIcon("trash")
+                        .setTooltip("Delete rule")
+                        .onClick(async () => {
+                            rules.splice(index, 1);
+                            await saveRules();
+                            this.display();
+                        })
+                );
+        });
+
+        new Setting(containerEl)
+            .setName("Add keep rule")
+            .addDropdown((dropdown) => {
+                dropdown.addOption("", "Add rule…");
+                for (const [type, label] of Object.entries(KEEP_RULE_LABELS)) {
+                    dropdown.addOption(type, label);
+                }
+                dropdown.onChange(async (value) => {
+                    if (!value) return;
+                    rules.push({ type: value as KeepRuleType, enabled: true });
+                    await saveRules();
+                    this.display();
+                });
+            });
+    }
+
+    /** Rule list, add controls and live "input → normalized" preview. */
+    private renderTitleRules(containerEl: HTMLElement): void {
+        const rules = this.plugin.settings.titleRewriteRules;
+
+        let previewEl: HTMLElement | null = null;
+        const updatePreview = () => {
+            if (!previewEl) return;
+            const normalized = normalizeTitle(this.previewTitle);
+            previewEl.setText(`${this.previewTitle} → ${normalized || "(empty)"}`);
+        };
+        const saveRules = async () => {
+            this.plugin.settings.titleRewriteRules = rules;
+            await this.plugin.saveSettings();
+            updatePreview();
+        };
+
+        rules.forEach((rule, index) => {
+            const setting = new Setting(containerEl).setName(`Rule ${index + 1}`);
+            const updateValidity = () => {
+                const valid = compileRewriteRule(rule) !== null;
+                setting.setDesc(valid ? "" : "Invalid regular expression — rule is skipped");
+                setting.descEl.toggleClass("duplicate-review-rule-error", !valid);
+            };
+            updateValidity();
+
+            setting
+                .addText((text) =>
+                    text
+                        .setPlaceholder("Pattern")
+                        .setValue(rule.pattern)
+                        .onChange(async (value) => {
+                            rule.pattern = value;
+                            updateValidity();
+                            await saveRules();
+                        })
+                )
+                .addText((text) =>
+                    text
+                        .setPlaceholder("Replacement")
+                        .setValue(rule.replacement)
+                        .onChange(async (value) => {
+                            rule.replacement = value;
+                            await saveRules();
+                        })
+                )
+                .addText((text) => {
+                    text.inputEl.addClass("duplicate-review-rule-flags");
+                    text
+                        .setPlaceholder("flags")
+                        .setValue(rule.flags)
+                        .onChange(async (value) => {
+                            rule.flags = value.trim();
+                            updateValidity();
+                            await saveRules();
+                        });
+                })
+                .addToggle((toggle) =>
+                    toggle
+                        .setTooltip("Enabled")
+                        .setValue(rule.enabled)
+                        .onChange(async (value) => {
+                            rule.enabled = value;
+                            await saveRules();
+                        })
+                )
+                .addExtraButton((button) =>
+                    button
+                        .setIcon("arrow-up")
+                        .setTooltip("Move up")
+                        .setDisabled(index === 0)
+                        .onClick(async () => {
+                            if (index === 0) return;
+                            [rules[index - 1], rules[index]] = [rules[index], rules[index - 1]];
+                            await saveRules();
+                            this.display();
+                        })
+                )
+                .addExtraButton((button) =>
+                    button
+                        .setIcon("arrow-down")
+                        .setTooltip("Move down")
+                        .setDisabled(index === rules.length - 1)
+                        .onClick(async () => {
+                            if (index === rules.length - 1) return;
+                            [rules[index + 1], rules[index]] = [rules[index], rules[index + 1]];
+                            await saveRules();
+                            this.display();
+                        })
+                )
+                .addExtraButton((button) =>
+                    button
+                        .setIcon("trash")
+                        .setTooltip("Delete rule")
+                        .onClick(async () => {
+                            rules.splice(index, 1);
+                            await saveRules();
+                            this.display();
+                        })
+                );
+        });
+
+        new Setting(containerEl)
+            .setName("Add rule")
+            .setDesc("Start from a preset or an empty rule")
+            .addDropdown((dropdown) => {
+                dropdown.addOption("", "Add preset…");
+                TITLE_RULE_PRESETS.forEach((preset, i) => dropdown.addOption(String(i), preset.name));
+                dropdown.onChange(async (value) => {
+                    if (value === "") return;
+                    rules.push({ ...TITLE_RULE_PRESETS[parseInt(value, 10)].rule });
+                    await saveRules();
+                    this.display();
+                });
+            })
+            .addButton((button) =>
+                button
+                    .setButtonText("Add empty rule")
+                    .onClick(async () => {
+                        rules.push({ pattern: "", replacement: "", flags: "", enabled: true });
+                        await saveRules();
+                        this.display();
+                    })
+            );
+
+        new Setting(containerEl)
+            .setName("Preview")
+            .setDesc("Type a title to see how it is normalized")
+            .addText((text) =>
+                text
+                    .setValue(this.previewTitle)
+                    .onChange((value) => {
+                        this.previewTitle = value;
+                        updatePreview();
+                    })
+            );
+
+        previewEl = containerEl.createDiv("duplicate-review-rule-preview");
+        updatePreview();
+    }
 }
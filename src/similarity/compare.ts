@@ -0,0 +1,85 @@
+import type { DuplicateCandidate, DuplicateReviewerSettings } from "src/types";
+import { bodySimilarity, fullContentOverlap } from "./content";
+import { tokenize } from "./tokenize";
+
+export type ContentScores = Pick<DuplicateCandidate, "contentSimilarity" | "containment1In2" | "containment2In1">;
+
+/** The settings that decide how two bodies are compared. */
+export type ContentCompareOptions = Pick<
+    DuplicateReviewerSettings,
+    "contentComparisonMode" | "contentCharsToAnalyze" | "shingleSize" | "contentSimilarityThreshold"
+>;
+
+// Shingles the smaller note needs before containment alone can make a pair
+// a likely duplicate, so one-line notes don't count as "contained" in
+// everything that quotes them
+const MIN_CONTAINMENT_SHINGLES = 10;
+
+/** Containment at or above which one note counts as a subset of the other. */
+export const SUBSET_THRESHOLD = 0.9;
+
+/**
+ * Compare two plain-text bodies using the configured comparison mode.
+ * Prefix mode fills `contentSimilarity` only; full mode adds containment.
+ */
+export function compareContent(
+    text1: string,
+    text2: string,
+    settings: ContentCompareOptions
+): ContentScores {
+    if (settings.contentComparisonMode === "full") {
+        const overlap = fullContentOverlap(text1, text2, settings.shingleSize);
+        return {
+            contentSimilarity: overlap.jaccard,
+            containment1In2: overlap.containment1In2,
+            containment2In1: overlap.containment2In1,
+        };
+    }
+    return { contentSimilarity: bodySimilarity(text1, text2, settings.contentCharsToAnalyze) };
+}
+
+/** Whether one note is (almost) wholly contained in the other; full mode only. */
+export function isSubsetPair(scores: ContentScores): boolean {
+    return Math.max(scores.containment1In2 || 0, scores.containment2In1 || 0) >= SUBSET_THRESHOLD;
+}
+
+/**
+ * A pair is a likely duplicate when its content similarity reaches the
+ * threshold, or when one note is (almost) wholly contained in the other.
+ * Containment below `SUBSET_THRESHOLD` is partial overlap, kept in the
+ * scores but not enough on its own.
+ */
+export function isLikelyDuplicate(
+    scores: ContentScores,
+    threshold: number,
+    smallerShingleCount: number = MIN_CONTAINMENT_SHINGLES
+): boolean {
+    if ((scores.contentSimilarity || 0) >= threshold) return true;
+    if (smallerShingleCount < MIN_CONTAINMENT_SHINGLES) return false;
+    return isSubsetPair(scores);
+}
+
+/** Shingle count of the shorter text, for the containment size guard. */
+function smallerShingleCount(text1: string, text2: string, settings: ContentCompareOptions): number {
+    const words1 = tokenize(text1).length;
+    const words2 = tokenize(text2).length;
+    return Math.max(0, Math.min(words1, words2) - settings.shingleSize + 1);
+}
+
+/**
+ * Score two texts and decide likelyDuplicate in one step.
+ */
+export function scoreContent(
+    text1: string,
+    text2: string,
+    settings: ContentCompareOptions
+): ContentScores & Pick<DuplicateCandidate, "likelyDuplicate"> {
+    const scores = compareContent(text1, text2, settings);
+    const smaller = settings.contentComparisonMode === "full"
+        ? smallerShingleCount(text1, text2, settings)
+        : 0;
+    return {
+        ...scores,
+        likelyDuplicate: isLikelyDuplicate(scores, settings.contentSimilarityThreshold, smaller),
+    };
+}
@@ -1,42 +1,69 @@
+import { tokenize } from "./tokenize";
+import { markdownToPlainText, PlainTextOptions, DEFAULT_PLAIN_TEXT_OPTIONS } from "./markdown";
+import { wordShingles } from "./shingles";
+
+// Opening "---" line, YAML, closing "---" line — anchored so a later
+// horizontal rule in the body is never mistaken for the closing fence
+const FRONTMATTER_RE = /^---[ \t]*\r?\n(?:[\s\S]*?\r?\n)?---[ \t]*(?:\r?\n|$)/;
+
 /**
  * Extract the body content after YAML frontmatter.
+ *
+ * Pass `frontmatterEnd` (the metadata cache's `frontmatterPosition.end.offset`)
+ * when available; it is only trusted if it still lands right after a closing
+ * "---", since the cache can lag behind a just-edited file.
  */
-function extractBody(content: string): string {
-    if (content.startsWith("---")) {
-        const parts = content.split("---");
-        if (parts.length >= 3) {
-            // Join everything after the second '---'
-            return parts.slice(2).join("---").trim();
-        }
+export function extractBody(content: string, frontmatterEnd?: number): string {
+    if (!content.startsWith("---")) {
+        return content.trim();
     }
-    return content.trim();
+    if (frontmatterEnd !== undefined && content.substring(frontmatterEnd - 3, frontmatterEnd) === "---") {
+        return content.substring(frontmatterEnd).trim();
+    }
+    const match = content.match(FRONTMATTER_RE);
+    return match ? content.substring(match[0].length).trim() : content.trim();
+}
+
+/**
+ * Normalize a note body for exact comparison.
+ * Unifies line endings, strips trailing whitespace on each line and collapses
+ * runs of blank lines, so cosmetic edits don't break an otherwise identical match.
+ */
+export function normalizeBody(body: string): string {
+    return body
+        .replace(/\r\n?/g, "\n")
+        .split("\n")
+        .map((line) => line.trimEnd())
+        .join("\n")
+        .replace(/\n{3,}/g, "\n\n")
+        .trim();
 }
 
 /**
  * Calculate similarity between two content strings.
- * Uses Jaccard similarity on word sets from the first maxChars characters.
+ * Strips frontmatter and markdown syntax, then compares as `bodySimilarity`.
  */
 export function contentSimilarity(
     content1: string,
     content2: string,
-    maxChars: number = 1000
+    maxChars: number = 1000,
+    options: PlainTextOptions = DEFAULT_PLAIN_TEXT_OPTIONS
 ): number {
-    const body1 = extractBody(content1).substring(0, maxChars);
-    const body2 = extractBody(content2).substring(0, maxChars);
+    return bodySimilarity(
+        markdownToPlainText(extractBody(content1), options),
+        markdownToPlainText(extractBody(content2), options),
+        maxChars
+    );
+}
 
+/**
+ * Calculate similarity between two plain-text bodies.
+ * Uses Jaccard similarity on word sets from the first maxChars characters.
+ */
+export function bodySimilarity(text1: string, text2: string, maxChars: number = 1000): number {
     // Normalize and split into words
-    const words1 = new Set(
-        body1
-            .toLowerCase()
-            .match(/\w+/g)
-            ?.filter(Boolean) || []
-    );
-    const words2 = new Set(
-        body2
-            .toLowerCase()
-            .match(/\w+/g)
-            ?.filter(Boolean) || []
-    );
+    const words1 = new Set(tokenize(text1.substring(0, maxChars)));
+    const words2 = new Set(tokenize(text2.substring(0, maxChars)));
 
     if (words1.size === 0 || words2.size === 0) {
         return 0.0;
@@ -50,3 +77,37 @@ export function contentSimilarity(
 
     return intersection.size / union.size;
 }
+
+/**
+ * Full-document overlap of two texts' word-shingle sets.
+ *   - jaccard:        |A ∩ B| / |A ∪ B|, symmetric overlap
+ *   - containment1In2: |A ∩ B| / |A|, how much of text 1 appears in text 2
+ *   - containment2In1: |A ∩ B| / |B|, how much of text 2 appears in text 1
+ * A subset note has containment near 1 one way and a lower Jaccard.
+ */
+export interface ContentOverlap {
+    jaccard: number;
+    containment1In2: number;
+    containment2In1: number;
+}
+
+export function shingleOverlap(shingles1: Set<string>, shingles2: Set<string>): ContentOverlap {
+    if (shingles1.size === 0 || shingles2.size === 0) {
+        return { jaccard: 0, containment1In2: 0, containment2In1: 0 };
+    }
+
+    let intersectionCount = 0;
+    for (const s of shingles1) {
+        if (shingles2.has(s)) intersectionCount++;
+    }
+
+    return {
+        jaccard: intersectionCount / (shingles1.size + shingles2.size - intersectionCount),
+        containment1In2: intersectionCount / shingles1.size,
+        containment2In1: intersectionCount / shingles2.size,
+    };
+}
+
+export function fullContentOverlap(text1: string, text2: string, shingleSize: number = 3): ContentOverlap {
+    return shingleOverlap(wordShingles(text1, shingleSize), wordShingles(text2, shingleSize));
+}
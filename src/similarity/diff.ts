@@ -0,0 +1,166 @@
+/**
+ * Line and word diffs (Myers' O(ND) algorithm) for comparing two notes
+ * side by side.
+ */
+
+export type DiffOp = "equal" | "removed" | "added";
+
+/** A run of items that are in both sequences, only the first, or only the second. */
+export interface DiffPart<T> {
+    op: DiffOp;
+    items: T[];
+}
+
+/**
+ * A block of a line diff.  "equal" blocks have the same lines on both
+ * sides; "change" blocks have the lines only the left (removed) or only
+ * the right (added) has, either of which may be empty.
+ */
+export interface DiffHunk {
+    type: "equal" | "change";
+    left: string[];
+    right: string[];
+    /** Index of the block's first line in the left text. */
+    leftStart: number;
+    /** Index of the block's first line in the right text. */
+    rightStart: number;
+}
+
+// Past this many edits the sequences are reported as one change.  The trace
+// kept for backtracking holds 2d+1 Int32s per step d, about 4·d² bytes, so
+// this caps it near 4 MB per diff
+const MAX_EDIT_DISTANCE = 1000;
+
+function pushPart<T>(parts: DiffPart<T>[], op: DiffOp, items: T[]): void {
+    if (items.length === 0) return;
+    const last = parts[parts.length - 1];
+    if (last && last.op === op) {
+        last.items.push(...items);
+    } else {
+        parts.push({ op, items: [...items] });
+    }
+}
+
+/** Shortest edit script from `a` to `b` as runs of equal, removed and added items. */
+export function diffSequences<T>(a: T[], b: T[]): DiffPart<T>[] {
+    // Common prefix and suffix don't need the search
+    let prefix = 0;
+    while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) prefix++;
+    let suffix = 0;
+    while (
+        suffix < a.length - prefix &&
+        suffix < b.length - prefix &&
+        a[a.length - 1 - suffix] === b[b.length - 1 - suffix]
+    ) suffix++;
+
+    const midA = a.slice(prefix, a.length - suffix);
+    const midB = b.slice(prefix, b.length - suffix);
+    const parts: DiffPart<T>[] = [];
+    pushPart(parts, "equal", a.slice(0, prefix));
+    for (const part of diffMiddle(midA, midB)) pushPart(parts, part.op, part.items);
+    pushPart(parts, "equal", a.slice(a.length - suffix));
+    return parts;
+}
+
+function diffMiddle<T>(a: T[], b: T[]): DiffPart<T>[] {
+    const n = a.length;
+    const m = b.length;
+    if (n === 0 || m === 0) {
+        const parts: DiffPart<T>[] = [];
+        pushPart(parts, "removed", a);
+        pushPart(parts, "added", b);
+        return parts;
+    }
+
+    const max = Math.min(n + m, MAX_EDIT_DISTANCE);
+    const offset = max + 1;
+    const v = new Int32Array(2 * max + 3);
+    // v at the start of each round d, for diagonals -d..d
+    const trace: Int32Array[] = [];
+
+    let found = false;
+    for (let d = 0; d <= max && !found; d++) {
+        trace.push(v.slice(offset - d, offset + d + 1));
+        for (let k = -d; k <= d; k += 2) {
+            let x = k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1])
+                ? v[offset + k + 1]
+                : v[offset + k - 1] + 1;
+            let y = x - k;
+            while (x < n && y < m && a[x] === b[y]) {
+                x++;
+                y++;
+            }
+            v[offset + k] = x;
+            if (x >= n && y >= m) {
+                found = true;
+                break;
+            }
+        }
+    }
+
+    if (!found) {
+        return [{ op: "removed", items: [...a] }, { op: "added", items: [...b] }];
+    }
+
+    // Walk the trace back from (n, m), collecting edits last first
+    const reversed: { op: DiffOp; item: T }[] = [];
+    let x = n;
+    let y = m;
+    for (let d = trace.length - 1; d > 0; d--) {
+        const prev = trace[d];
+        const at = (k: number) => prev[k + d];
+        const k = x - y;
+        const prevK = k === -d || (k !== d && at(k - 1) < at(k + 1)) ? k + 1 : k - 1;
+        const prevX = at(prevK);
+        const prevY = prevX - prevK;
+        while (x > prevX && y > prevY) {
+            reversed.push({ op: "equal", item: a[--x] });
+            y--;
+        }
+        if (x === prevX) {
+            reversed.push({ op: "added", item: b[--y] });
+        } else {
+            reversed.push({ op: "removed", item: a[--x] });
+        }
+    }
+    while (x > 0 && y > 0) {
+        reversed.push({ op: "equal", item: a[--x] });
+        y--;
+    }
+
+    const parts: DiffPart<T>[] = [];
+    for (let i = reversed.length - 1; i >= 0; i--) {
+        pushPart(parts, reversed[i].op, [reversed[i].item]);
+    }
+    return parts;
+}
+
+/** Line diff of two texts, grouped into equal and change blocks. */
+export function diffLines(left: string, right: string): DiffHunk[] {
+    const hunks: DiffHunk[] = [];
+    let leftLine = 0;
+    let rightLine = 0;
+    for (const part of diffSequences(left.split("\n"), right.split("\n"))) {
+        let hunk = hunks[hunks.length - 1];
+        const type = part.op === "equal" ? "equal" : "change";
+        if (!hunk || hunk.type !== type || type === "equal") {
+            hunk = { type, left: [], right: [], leftStart: leftLine, rightStart: rightLine };
+            hunks.push(hunk);
+        }
+        if (part.op !== "added") {
+            hunk.left.push(...part.items);
+            leftLine += part.items.length;
+        }
+        if (part.op !== "removed") {
+            hunk.right.push(...part.items);
+            rightLine += part.items.length;
+        }
+    }
+    return hunks;
+}
+
+/** Word diff of two texts; whitespace runs are kept as their own tokens. */
+export function diffWords(left: string, right: string): DiffPart<string>[] {
+    const tokens = (text: string) => text.split(/(\s+)/).filter(Boolean);
+    return diffSequences(tokens(left), tokens(right));
+}
@@ -0,0 +1,88 @@
+import { normalizeTitle } from "./title";
+
+/**
+ * Character trigrams of a string, padded so that word starts and ends count too.
+ * "cat" → {"  c", " ca", "cat", "at "}
+ */
+export function trigrams(text: string): Set<string> {
+    const grams = new Set<string>();
+    if (!text) return grams;
+
+    const padded = "  " + text + " ";
+    for (let i = 0; i + 3 <= padded.length; i++) {
+        grams.add(padded.substring(i, i + 3));
+    }
+    return grams;
+}
+
+/**
+ * Jaccard similarity of two trigram sets.
+ */
+export function trigramSimilarity(grams1: Set<string>, grams2: Set<string>): number {
+    if (grams1.size === 0 || grams2.size === 0) {
+        return 0.0;
+    }
+
+    let intersectionCount = 0;
+    for (const g of grams1) {
+        if (grams2.has(g)) intersectionCount++;
+    }
+    return intersectionCount / (grams1.size + grams2.size - intersectionCount);
+}
+
+/**
+ * Levenshtein edit distance (insertions, deletions, substitutions).
+ */
+export function levenshtein(a: string, b: string): number {
+    if (a === b) return 0;
+    if (a.length === 0) return b.length;
+    if (b.length === 0) return a.length;
+
+    // Two-row dynamic programming table
+    let prev = new Array<number>(b.length + 1);
+    let curr = new Array<number>(b.length + 1);
+    for (let j = 0; j <= b.length; j++) prev[j] = j;
+
+    for (let i = 1; i <= a.length; i++) {
+        curr[0] = i;
+        for (let j = 1; j <= b.length; j++) {
+            const cost = a.charCodeAt(i - 1) === b.charCodeAt(j - 1) ? 0 : 1;
+            curr[j] = Math.min(prev[j] + 1, curr[j - 1] + 1, prev[j - 1] + cost);
+        }
+        [prev, curr] = [curr, prev];
+    }
+
+    return prev[b.length];
+}
+
+/**
+ * Edit distance scaled to 0..1, where 1 means identical strings.
+ */
+export function levenshteinSimilarity(a: string, b: string): number {
+    const maxLen = Math.max(a.length, b.length);
+    if (maxLen === 0) return 0.0;
+    return 1 - levenshtein(a, b) / maxLen;
+}
+
+/**
+ * Typo-tolerant similarity of two already-normalized titles.
+ * Takes the better of trigram Jaccard (robust to word reordering) and
+ * normalized Levenshtein (robust to single-character typos).
+ */
+export function fuzzySimilarity(
+    norm1: string,
+    norm2: string,
+    grams1: Set<string> = trigrams(norm1),
+    grams2: Set<string> = trigrams(norm2)
+): number {
+    if (!norm1 || !norm2) return 0.0;
+    return Math.max(trigramSimilarity(grams1, grams2), levenshteinSimilarity(norm1, norm2));
+}
+
+/**
+ * Typo-tolerant similarity between two raw titles.
+ * Returns a value between 0 and 1.
+ */
+export function fuzzyTitleSimilarity(title1: string, title2: string): number {
+    return fuzzySimilarity(normalizeTitle(title1), normalizeTitle(title2));
+}
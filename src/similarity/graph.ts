@@ -0,0 +1,38 @@
+/**
+ * Link-graph similarity: how much two notes' neighborhoods (the notes they
+ * link to plus the notes linking to them) overlap.  Notes that many others
+ * link to under different names share most of their backlinks.
+ */
+
+export interface NeighborScore {
+    score: number;
+    /** Neighbor paths both notes have, sorted. */
+    shared: string[];
+}
+
+/**
+ * Jaccard similarity of two notes' neighbor paths.  Each note is left out
+ * of the other's neighborhood, so a direct link between the two doesn't
+ * count as overlap.
+ */
+export function neighborSimilarity(
+    path1: string,
+    neighbors1: string[],
+    path2: string,
+    neighbors2: string[]
+): NeighborScore {
+    const set1 = new Set(neighbors1);
+    const set2 = new Set(neighbors2);
+    set1.delete(path2);
+    set2.delete(path1);
+
+    const shared: string[] = [];
+    for (const path of set1) {
+        if (set2.has(path)) shared.push(path);
+    }
+    const union = set1.size + set2.size - shared.length;
+    return {
+        score: union === 0 ? 0 : shared.length / union,
+        shared: shared.sort(),
+    };
+}
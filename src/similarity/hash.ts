@@ -0,0 +1,27 @@
+/**
+ * Fast 53-bit string hash (cyrb53).
+ * Collisions are vanishingly rare at vault scale, so equal hashes are treated
+ * as equal content without a second byte-by-byte comparison.
+ */
+export function hashString(str: string, seed: number = 0): string {
+    let h1 = 0xdeadbeef ^ seed;
+    let h2 = 0x41c6ce57 ^ seed;
+    for (let i = 0; i < str.length; i++) {
+        const ch = str.charCodeAt(i);
+        h1 = Math.imul(h1 ^ ch, 2654435761);
+        h2 = Math.imul(h2 ^ ch, 1597334677);
+    }
+    h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+    h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+
+    return (4294967296 * (2097151 & h2) + (h1 >>> 0)).toString(16);
+}
+
+/**
+ * SHA-256 of binary content as hex, for attachments: unlike note bodies they
+ * can be large and are compared without any normalization.
+ */
+export async function hashBinary(data: ArrayBuffer): Promise<string> {
+    const digest = new Uint8Array(await crypto.subtle.digest("SHA-256", data));
+    return Array.from(digest, (b) => b.toString(16).padStart(2, "0")).join("");
+}
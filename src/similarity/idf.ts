@@ -0,0 +1,58 @@
+/**
+ * Inverse document frequency over a set of token sets (one per document),
+ * used to weight rare title words above common ones.
+ */
+export interface IdfTable {
+    docCount: number;
+    docFreq: Map<string, number>;
+}
+
+export function buildIdf(docs: Iterable<Set<string>>): IdfTable {
+    const docFreq = new Map<string, number>();
+    let docCount = 0;
+    for (const doc of docs) {
+        docCount++;
+        for (const token of doc) {
+            docFreq.set(token, (docFreq.get(token) || 0) + 1);
+        }
+    }
+    return { docCount, docFreq };
+}
+
+/**
+ * Smoothed IDF weight: always positive, so even a word in every document
+ * still counts a little.
+ */
+export function idfWeight(table: IdfTable, token: string): number {
+    const df = table.docFreq.get(token) || 0;
+    return Math.log((table.docCount + 1) / (df + 1)) + 1;
+}
+
+/** Share of documents containing `token`. */
+export function documentRatio(table: IdfTable, token: string): number {
+    return table.docCount === 0 ? 0 : (table.docFreq.get(token) || 0) / table.docCount;
+}
+
+/**
+ * IDF-weighted Jaccard: total weight of shared tokens over total weight of
+ * all tokens.  "Meeting with Alice" vs "Meeting with Bob" scores low because
+ * the shared words are common and the differing names are rare.
+ */
+export function weightedJaccard(set1: Set<string>, set2: Set<string>, table: IdfTable): number {
+    if (set1.size === 0 || set2.size === 0) {
+        return 0.0;
+    }
+
+    let shared = 0;
+    let total = 0;
+    for (const token of set1) {
+        const w = idfWeight(table, token);
+        total += w;
+        if (set2.has(token)) shared += w;
+    }
+    for (const token of set2) {
+        if (!set1.has(token)) total += idfWeight(table, token);
+    }
+
+    return total === 0 ? 0 : shared / total;
+}
@@ -1,2 +1,45 @@
-export { normalizeTitle, titleSimilarity } from "./title";
-export { contentSimilarity } from "./content";
+export {
+    normalizeTitle,
+    titleSimilarity,
+    compileRewriteRule,
+    setTitleRewriteRules,
+    titleWords,
+    wordJaccard,
+    titleIdf,
+    bestTitleMatch,
+} from "./title";
+export {
+    trigrams,
+    trigramSimilarity,
+    levenshtein,
+    levenshteinSimilarity,
+    fuzzySimilarity,
+    fuzzyTitleSimilarity,
+} from "./fuzzy";
+export {
+    contentSimilarity,
+    bodySimilarity,
+    extractBody,
+    normalizeBody,
+    shingleOverlap,
+    fullContentOverlap,
+} from "./content";
+export type { ContentOverlap } from "./content";
+export { SUBSET_THRESHOLD, compareContent, isLikelyDuplicate, isSubsetPair, scoreContent } from "./compare";
+export type { ContentScores, ContentCompareOptions } from "./compare";
+export { markdownToPlainText, DEFAULT_PLAIN_TEXT_OPTIONS } from "./markdown";
+export type { PlainTextOptions } from "./markdown";
+export { hashString, hashBinary } from "./hash";
+export { wordShingles } from "./shingles";
+export { buildIdf, idfWeight, documentRatio, weightedJaccard } from "./idf";
+export type { IdfTable } from "./idf";
+export { foldText, stripPunctuation, tokenize, setTokenizerOptions } from "./tokenize";
+export type { TokenizerOptions } from "./tokenize";
+export { createMinHasher, minHashSignature, lshBandKeys } from "./minhash";
+export type { MinHasher } from "./minhash";
+export { metadataSimilarity, normalizeIdentifier } from "./metadata";
+export type { NoteMetadata, MetadataScore } from "./metadata";
+export { neighborSimilarity } from "./graph";
+export type { NeighborScore } from "./graph";
+export { diffSequences, diffLines, diffWords } from "./diff";
+export type { DiffOp, DiffPart, DiffHunk } from "./diff";
@@ -0,0 +1,116 @@
+/**
+ * Reduce markdown to the plain text a reader sees, so syntax differences
+ * (link styles, fences, checkboxes, callout markers) don't count as content
+ * differences in similarity scoring.
+ */
+
+export interface PlainTextOptions {
+    /** Drop fenced code blocks entirely instead of keeping their contents. */
+    dropCodeBlocks: boolean;
+    /** Drop `![[embeds]]` and `![images](...)` instead of keeping their names. */
+    dropEmbeds: boolean;
+}
+
+export const DEFAULT_PLAIN_TEXT_OPTIONS: PlainTextOptions = {
+    dropCodeBlocks: false,
+    dropEmbeds: true,
+};
+
+const FENCE_RE = /^ {0,3}(`{3,}|~{3,})/;
+
+/** Display text of a wikilink target: the alias if any, else the target with `#` → space. */
+function wikilinkText(inner: string): string {
+    const pipe = inner.indexOf("|");
+    if (pipe !== -1) return inner.substring(pipe + 1);
+    return inner.replace(/#\^?/g, " ");
+}
+
+/** Strip inline markdown from a single line of prose. */
+function stripInline(line: string, options: PlainTextOptions): string {
+    let text = line;
+
+    // Embeds first so the link rules below don't half-match them
+    if (options.dropEmbeds) {
+        text = text.replace(/!\[\[[^\]]*\]\]/g, "");
+        text = text.replace(/!\[[^\]]*\]\([^)]*\)/g, "");
+    } else {
+        text = text.replace(/!\[\[([^\]]*)\]\]/g, (_, inner: string) => wikilinkText(inner));
+        text = text.replace(/!\[([^\]]*)\]\([^)]*\)/g, "$1");
+    }
+
+    // [[target|alias]] → alias, [[target#heading]] → target heading
+    text = text.replace(/\[\[([^\]]*)\]\]/g, (_, inner: string) => wikilinkText(inner));
+    // [text](url) → text
+    text = text.replace(/\[([^\]]*)\]\([^)]*\)/g, "$1");
+    // Inline code keeps its contents
+    text = text.replace(/`([^`]*)`/g, "$1");
+    // Emphasis, strikethrough and highlight markers
+    text = text.replace(/(\*\*|__|~~|==)/g, "");
+    text = text.replace(/(^|\W)[*_](\S)/g, "$1$2").replace(/(\S)[*_](\W|$)/g, "$1$2");
+
+    return text;
+}
+
+/**
+ * Strip line-level markers: headings, blockquotes/callouts, list bullets and
+ * task checkboxes.  Returns null for lines that carry no text (rules, tables
+ * separators).
+ */
+function stripBlockMarkers(line: string): string | null {
+    let text = line;
+
+    // Horizontal rules and table separator rows
+    if (/^\s*([-*_])(\s*\1){2,}\s*$/.test(text)) return null;
+    if (/^\s*\|?\s*:?-+:?\s*(\|\s*:?-+:?\s*)*\|?\s*$/.test(text)) return null;
+
+    // Blockquote / callout prefixes ("> [!note] Title" → "Title")
+    text = text.replace(/^\s*(>\s*)+/, "");
+    text = text.replace(/^\[![\w-]+\][+-]?\s*/, "");
+
+    // Headings
+    text = text.replace(/^\s*#{1,6}\s+/, "");
+
+    // Task checkboxes and list bullets
+    text = text.replace(/^\s*([-*+]|\d+[.)])\s+\[.\]\s+/, "");
+    text = text.replace(/^\s*([-*+]|\d+[.)])\s+/, "");
+
+    return text;
+}
+
+/**
+ * Convert a markdown body (frontmatter already removed) to plain text.
+ */
+export function markdownToPlainText(
+    markdown: string,
+    options: PlainTextOptions = DEFAULT_PLAIN_TEXT_OPTIONS
+): string {
+    // Comments never render: Obsidian %%…%% and HTML <!-- … -->
+    const source = markdown.replace(/%%[\s\S]*?%%/g, "").replace(/<!--[\s\S]*?-->/g, "");
+
+    const out: string[] = [];
+    let fence: string | null = null;
+
+    for (const line of source.split(/\r?\n/)) {
+        const fenceMatch = line.match(FENCE_RE);
+        if (fence !== null) {
+            // Inside a code block: a matching fence closes it
+            if (fenceMatch && fenceMatch[1][0] === fence[0] && fenceMatch[1].length >= fence.length) {
+                fence = null;
+            } else if (!options.dropCodeBlocks) {
+                out.push(line);
+            }
+            continue;
+        }
+        if (fenceMatch) {
+            fence = fenceMatch[1];
+            continue;
+        }
+
+        const text = stripBlockMarkers(line);
+        if (text === null) continue;
+        // Table cell pipes go last so they can't split a [[link|alias]]
+        out.push(stripInline(text, options).replace(/\|/g, " "));
+    }
+
+    return out.join("\n").replace(/\n{3,}/g, "\n\n").trim();
+}
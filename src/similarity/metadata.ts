@@ -0,0 +1,66 @@
+/**
+ * Metadata similarity: tags, outgoing links and identifier properties
+ * (`url`, `isbn`, `doi`, ...) of two notes, as read from the metadata cache.
+ */
+
+/** One note's metadata as plain data. */
+export interface NoteMetadata {
+    /** Lowercased tags, `#` included. */
+    tags: string[];
+    /**
+     * Link targets as written in the note (lowercased, without subpath), so
+     * they only change when the note itself does.
+     */
+    links: string[];
+    /** Normalized identifier values with the property each came from. */
+    identifiers: [value: string, key: string][];
+}
+
+export interface MetadataScore {
+    score: number;
+    /** Set when both notes carry the same identifier value. */
+    sharedIdentifier?: { key: string; value: string };
+}
+
+/**
+ * Normalize an identifier value so trivially different spellings compare
+ * equal: case, `http(s)://` and `www.`, a trailing slash, `doi:` prefixes,
+ * and hyphens or spaces in ISBN-like numbers.
+ */
+export function normalizeIdentifier(value: string): string {
+    let v = value.trim().toLowerCase();
+    v = v.replace(/^https?:\/\//, "").replace(/^www\./, "");
+    v = v.replace(/^(dx\.)?doi\.org\//, "").replace(/^doi:\s*/, "");
+    v = v.replace(/\/+$/, "");
+    if (/^[\d\s-]+x?$/.test(v)) v = v.replace(/[\s-]/g, "");
+    return v;
+}
+
+function jaccard(a: Set<string>, b: Set<string>): number {
+    let shared = 0;
+    for (const item of a) {
+        if (b.has(item)) shared++;
+    }
+    const union = a.size + b.size - shared;
+    return union === 0 ? 0 : shared / union;
+}
+
+/**
+ * Score two notes' metadata.  A shared identifier makes them the same
+ * source, scoring 1; otherwise the score is the mean of tag and link
+ * Jaccard, so neither shared tags nor shared links alone exceed 0.5.
+ */
+export function metadataSimilarity(a: NoteMetadata, b: NoteMetadata): MetadataScore {
+    // Pick the smallest shared value (and key) so the result doesn't depend on argument order
+    const identifiers = new Map(b.identifiers);
+    let shared: { key: string; value: string } | undefined;
+    for (const [value, keyA] of a.identifiers) {
+        const keyB = identifiers.get(value);
+        if (keyB === undefined || (shared && shared.value <= value)) continue;
+        shared = { key: keyA < keyB ? keyA : keyB, value };
+    }
+    if (shared) return { score: 1, sharedIdentifier: shared };
+    const tags = jaccard(new Set(a.tags), new Set(b.tags));
+    const links = jaccard(new Set(a.links), new Set(b.links));
+    return { score: (tags + links) / 2 };
+}
@@ -0,0 +1,82 @@
+/**
+ * MinHash signatures and locality-sensitive hashing (LSH) bands.
+ *
+ * A signature is a fixed-length sketch of a shingle set: the probability that
+ * two signatures agree in any one slot equals the Jaccard similarity of the
+ * underlying sets.  Splitting the signature into `bands` of `rows` slots and
+ * bucketing on each band makes similar notes collide in at least one bucket
+ * with high probability, while dissimilar notes almost never do.
+ */
+
+/** 32-bit FNV-1a hash of a string. */
+function fnv1a(str: string): number {
+    let h = 0x811c9dc5;
+    for (let i = 0; i < str.length; i++) {
+        h ^= str.charCodeAt(i);
+        h = Math.imul(h, 0x01000193);
+    }
+    return h >>> 0;
+}
+
+/** Final avalanche step from MurmurHash3, so nearby inputs spread across the range. */
+function mix32(h: number): number {
+    h ^= h >>> 16;
+    h = Math.imul(h, 0x85ebca6b);
+    h ^= h >>> 13;
+    h = Math.imul(h, 0xc2b2ae35);
+    h ^= h >>> 16;
+    return h >>> 0;
+}
+
+export interface MinHasher {
+    bands: number;
+    rows: number;
+    seeds: Uint32Array;
+}
+
+/**
+ * Create a hasher with `bands * rows` deterministic hash functions.
+ * Deterministic seeds keep signatures comparable across scans.
+ */
+export function createMinHasher(bands: number, rows: number): MinHasher {
+    const count = bands * rows;
+    const seeds = new Uint32Array(count);
+    for (let i = 0; i < count; i++) {
+        seeds[i] = mix32(0x9e3779b9 + i);
+    }
+    return { bands, rows, seeds };
+}
+
+/**
+ * Compute the MinHash signature of a shingle set.
+ */
+export function minHashSignature(shingles: Set<string>, hasher: MinHasher): Uint32Array {
+    const signature = new Uint32Array(hasher.seeds.length).fill(0xffffffff);
+
+    for (const shingle of shingles) {
+        const base = fnv1a(shingle);
+        for (let i = 0; i < hasher.seeds.length; i++) {
+            const h = mix32(base ^ hasher.seeds[i]);
+            if (h < signature[i]) signature[i] = h;
+        }
+    }
+
+    return signature;
+}
+
+/**
+ * Split a signature into LSH bucket keys, one per band.
+ * The band number is part of the key so equal values in different bands don't collide.
+ */
+export function lshBandKeys(signature: Uint32Array, hasher: MinHasher): string[] {
+    const keys: string[] = [];
+    for (let b = 0; b < hasher.bands; b++) {
+        const start = b * hasher.rows;
+        let key = `${b}`;
+        for (let r = 0; r < hasher.rows; r++) {
+            key += ":" + signature[start + r].toString(36);
+        }
+        keys.push(key);
+    }
+    return keys;
+}
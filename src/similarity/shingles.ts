@@ -0,0 +1,23 @@
+import { tokenize } from "./tokenize";
+
+/**
+ * Build the set of word k-shingles (overlapping runs of `size` words) for a text.
+ * Texts shorter than `size` words produce a single shingle of all their words.
+ */
+export function wordShingles(text: string, size: number = 3): Set<string> {
+    const tokens = tokenize(text);
+    const shingles = new Set<string>();
+
+    if (tokens.length === 0) {
+        return shingles;
+    }
+    if (tokens.length <= size) {
+        shingles.add(tokens.join(" "));
+        return shingles;
+    }
+
+    for (let i = 0; i + size <= tokens.length; i++) {
+        shingles.add(tokens.slice(i, i + size).join(" "));
+    }
+    return shingles;
+}
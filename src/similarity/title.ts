@@ -1,6 +1,45 @@
+import type { TitleRewriteRule, TitleVariant } from "src/types";
+import { stripPunctuation, tokenize } from "./tokenize";
+import { buildIdf, weightedJaccard } from "./idf";
+import type { IdfTable } from "./idf";
+
+interface CompiledRewriteRule {
+    regex: RegExp;
+    replacement: string;
+}
+
+// User rewrite rules applied by normalizeTitle, set from plugin settings
+let activeRules: CompiledRewriteRule[] = [];
+
+/**
+ * Compile a rule's pattern.  Returns null for an invalid regex so one bad
+ * rule is skipped instead of breaking every scan.
+ */
+export function compileRewriteRule(rule: TitleRewriteRule): RegExp | null {
+    try {
+        return new RegExp(rule.pattern, rule.flags);
+    } catch {
+        return null;
+    }
+}
+
+/**
+ * Replace the user rewrite rules used by normalizeTitle.
+ * Disabled and invalid rules are dropped; order is preserved.
+ */
+export function setTitleRewriteRules(rules: TitleRewriteRule[]): void {
+    activeRules = [];
+    for (const rule of rules) {
+        if (!rule.enabled || !rule.pattern) continue;
+        const regex = compileRewriteRule(rule);
+        if (regex) activeRules.push({ regex, replacement: rule.replacement });
+    }
+}
+
 /**
  * Normalize a title for comparison.
- * Removes common prefixes, punctuation, and converts to lowercase.
+ * Applies user rewrite rules, removes common prefixes, punctuation, and
+ * converts to lowercase.
  */
 export function normalizeTitle(title: string): string {
     let normalized = title;
@@ -8,13 +47,17 @@ export function normalizeTitle(title: string): string {
     // Remove file extension
     normalized = normalized.replace(/\.md$/i, "");
 
+    // User-defined rewrite rules, in order
+    for (const rule of activeRules) {
+        normalized = normalized.replace(rule.regex, rule.replacement);
+    }
+
     // Remove common index prefixes like "EAD0001" or "250.25"
     normalized = normalized.replace(/^\[?[A-Z]{2,4}\d+\]?\s*/, "");
     normalized = normalized.replace(/^\d+\.\d+\s*/, "");
 
-    // Convert to lowercase and remove punctuation
-    normalized = normalized.toLowerCase();
-    normalized = normalized.replace(/[^\w\s]/g, "");
+    // Fold case (and diacritics) and remove punctuation, in any script
+    normalized = stripPunctuation(normalized);
 
     // Normalize whitespace
     normalized = normalized.split(/\s+/).filter(Boolean).join(" ");
@@ -30,8 +73,8 @@ export function titleSimilarity(title1: string, title2: string): number {
     const norm1 = normalizeTitle(title1);
     const norm2 = normalizeTitle(title2);
 
-    const words1 = new Set(norm1.split(/\s+/).filter(Boolean));
-    const words2 = new Set(norm2.split(/\s+/).filter(Boolean));
+    const words1 = new Set(tokenize(norm1));
+    const words2 = new Set(tokenize(norm2));
 
     if (words1.size === 0 || words2.size === 0) {
         return 0.0;
@@ -45,3 +88,52 @@ export function titleSimilarity(title1: string, title2: string): number {
 
     return intersection.size / union.size;
 }
+
+/**
+ * Compute the normalised word set for a title (the unit the inverted index keys on).
+ */
+export function titleWords(title: string): Set<string> {
+    return new Set(tokenize(normalizeTitle(title)));
+}
+
+/** Jaccard on pre-computed word sets (same logic as titleSimilarity). */
+export function wordJaccard(words1: Set<string>, words2: Set<string>): number {
+    let intersectionCount = 0;
+    for (const w of words1) {
+        if (words2.has(w)) intersectionCount++;
+    }
+    const unionSize = words1.size + words2.size - intersectionCount;
+    return unionSize === 0 ? 0 : intersectionCount / unionSize;
+}
+
+/**
+ * Document frequencies of title words, one document per note.  Each note
+ * counts once per word, however many of its titles contain it.
+ */
+export function titleIdf(titleLists: TitleVariant[][]): IdfTable {
+    return buildIdf(titleLists.map((titles) => {
+        const words = new Set<string>();
+        for (const variant of titles) {
+            for (const w of titleWords(variant.title)) words.add(w);
+        }
+        return words;
+    }));
+}
+
+/** Best similarity over all title combinations of two notes, with the titles that produced it. */
+export function bestTitleMatch(
+    titles1: TitleVariant[],
+    titles2: TitleVariant[],
+    idf?: IdfTable | null
+): { score: number; variant1: TitleVariant; variant2: TitleVariant } {
+    let best = { score: -1, variant1: titles1[0], variant2: titles2[0] };
+    for (const variant1 of titles1) {
+        const words1 = titleWords(variant1.title);
+        for (const variant2 of titles2) {
+            const words2 = titleWords(variant2.title);
+            const score = idf ? weightedJaccard(words1, words2, idf) : wordJaccard(words1, words2);
+            if (score > best.score) best = { score, variant1, variant2 };
+        }
+    }
+    return best;
+}
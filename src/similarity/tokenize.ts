@@ -0,0 +1,77 @@
+/**
+ * Unicode-aware text folding and tokenization shared by title and content
+ * similarity.  Tokens are runs of letters, numbers and combining marks in any
+ * script; runs of CJK characters (which don't separate words with spaces)
+ * are split into overlapping bigrams so "会議メモ" can still match "会議".
+ */
+
+export interface TokenizerOptions {
+    /** Strip accents so "Café" and "Cafe" compare equal. */
+    foldDiacritics: boolean;
+}
+
+let options: TokenizerOptions = { foldDiacritics: true };
+
+/** Replace the tokenizer options, set from plugin settings. */
+export function setTokenizerOptions(next: TokenizerOptions): void {
+    options = { ...next };
+}
+
+const TOKEN_RE = /[\p{L}\p{N}\p{M}_]+/gu;
+const NON_TOKEN_RE = /[^\p{L}\p{N}\p{M}_\s]/gu;
+const CJK_RUN_RE = /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Hangul}]+/gu;
+// Combining Diacritical Marks block only, so marks that carry meaning in
+// other scripts (e.g. Devanagari vowel signs) are left alone
+const DIACRITIC_RE = /[\u0300-\u036f]/g;
+
+/**
+ * Compatibility-normalize, lowercase and (optionally) strip diacritics.
+ */
+export function foldText(text: string): string {
+    let folded = text.normalize("NFKC").toLowerCase();
+    if (options.foldDiacritics) {
+        folded = folded.normalize("NFD").replace(DIACRITIC_RE, "").normalize("NFC");
+    }
+    return folded;
+}
+
+/**
+ * Fold text and drop everything that isn't a letter, number, mark,
+ * underscore or whitespace.  CJK runs are kept intact.
+ */
+export function stripPunctuation(text: string): string {
+    return foldText(text).replace(NON_TOKEN_RE, "");
+}
+
+/**
+ * Split text into folded tokens, with CJK runs segmented into bigrams.
+ */
+export function tokenize(text: string): string[] {
+    const tokens: string[] = [];
+    const words = foldText(text).match(TOKEN_RE) || [];
+
+    for (const word of words) {
+        let last = 0;
+        for (const match of word.matchAll(CJK_RUN_RE)) {
+            const start = match.index ?? 0;
+            if (start > last) tokens.push(word.substring(last, start));
+            pushBigrams(match[0], tokens);
+            last = start + match[0].length;
+        }
+        if (last < word.length) tokens.push(word.substring(last));
+    }
+
+    return tokens;
+}
+
+/** Overlapping character bigrams of a CJK run; single characters stay whole. */
+function pushBigrams(run: string, tokens: string[]): void {
+    const chars = Array.from(run);
+    if (chars.length === 1) {
+        tokens.push(chars[0]);
+        return;
+    }
+    for (let i = 0; i + 1 < chars.length; i++) {
+        tokens.push(chars[i] + chars[i + 1]);
+    }
+}
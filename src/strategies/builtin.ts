@@ -0,0 +1,277 @@
+import { App, TFile } from "obsidian";
+import { DuplicateReviewerSettings, SimilarityStrategy, StrategyContext, StrategyMatch } from "src/types";
+import {
+    bestTitleMatch,
+    compareContent,
+    fuzzyTitleSimilarity,
+    metadataSimilarity,
+    neighborSimilarity,
+} from "src/similarity";
+import type { IdfTable } from "src/similarity";
+import {
+    buildTitleIdf,
+    collectMarkdownFiles,
+    filenameTitles,
+    getTitleVariants,
+    TitleSource,
+    findTitleDuplicates,
+    findFuzzyTitleDuplicates,
+    findNearContentDuplicates,
+    findMetadataDuplicates,
+    findLinkGraphDuplicates,
+    getLinkNeighbors,
+    getNoteMetadata,
+    readComparableText,
+} from "src/scanner";
+import { registerStrategy, getStrategy } from "./registry";
+
+/** Words in more than this share of titles are left out of the index when pruning. */
+const COMMON_TITLE_WORD_RATIO = 0.05;
+
+/** Filename only, or filename plus aliases and first H1 when enabled. */
+function titleSource(app: App, settings: DuplicateReviewerSettings): TitleSource {
+    return settings.matchAliases ? (file) => getTitleVariants(app, file) : filenameTitles;
+}
+
+// Vault-wide title IDF for one-off scoring, rebuilt when the note count or
+// title sources change
+let vaultIdf: { fileCount: number; matchAliases: boolean; table: IdfTable } | null = null;
+
+function getVaultTitleIdf(app: App, settings: DuplicateReviewerSettings): IdfTable {
+    const files = collectMarkdownFiles(app, app.vault.getRoot(), settings.ignoredFolders);
+    if (!vaultIdf || vaultIdf.fileCount !== files.length || vaultIdf.matchAliases !== settings.matchAliases) {
+        vaultIdf = {
+            fileCount: files.length,
+            matchAliases: settings.matchAliases,
+            table: buildTitleIdf(files, titleSource(app, settings)),
+        };
+    }
+    return vaultIdf.table;
+}
+
+function pathSet(files: TFile[]): Set<string> {
+    return new Set(files.map((f) => f.path));
+}
+
+async function titleMatches(files: TFile[], context: StrategyContext, changed?: Set<string>): Promise<StrategyMatch[]> {
+    const candidates = await findTitleDuplicates(
+        files,
+        context.threshold,
+        context.signal,
+        context.onProgress,
+        {
+            weightByIdf: context.settings.titleWeighting === "idf",
+            pruneRatio: context.settings.pruneCommonTitleWords ? COMMON_TITLE_WORD_RATIO : undefined,
+            titles: titleSource(context.app, context.settings),
+            changed,
+        }
+    );
+    return candidates.map((c): StrategyMatch => ({
+        file1: c.file1,
+        file2: c.file2,
+        score: c.titleSimilarity,
+        details: c.titleVariant1 ? { titleVariant1: c.titleVariant1, titleVariant2: c.titleVariant2 } : undefined,
+    }));
+}
+
+export const titleStrategy: SimilarityStrategy = {
+    id: "title",
+    name: "Title words",
+    description: "Jaccard similarity on whole normalized title words",
+    label: "title",
+    defaultThreshold: 0.8,
+    async findCandidates(files, context) {
+        return titleMatches(files, context);
+    },
+    async findCandidatesFor(changed, files, context) {
+        // Word frequencies shift with every edit, changing unrelated pairs too
+        if (context.settings.titleWeighting === "idf" || context.settings.pruneCommonTitleWords) {
+            return null;
+        }
+        return titleMatches(files, context, pathSet(changed));
+    },
+    async score(file1, file2, context) {
+        const titles = titleSource(context.app, context.settings);
+        const idf = context.settings.titleWeighting === "idf"
+            ? getVaultTitleIdf(context.app, context.settings)
+            : null;
+        return bestTitleMatch(titles(file1), titles(file2), idf).score;
+    },
+};
+
+async function fuzzyTitleMatches(
+    files: TFile[],
+    context: StrategyContext,
+    changed?: Set<string>
+): Promise<StrategyMatch[]> {
+    const candidates = await findFuzzyTitleDuplicates(
+        files,
+        context.threshold,
+        context.signal,
+        context.onProgress,
+        changed
+    );
+    return candidates.map((c): StrategyMatch => ({
+        file1: c.file1,
+        file2: c.file2,
+        score: c.fuzzyTitleSimilarity || 0,
+        details: { fuzzyTitleSimilarity: c.fuzzyTitleSimilarity },
+    }));
+}
+
+export const fuzzyTitleStrategy: SimilarityStrategy = {
+    id: "fuzzy-title",
+    name: "Typo-tolerant title",
+    description: "Character trigrams and edit distance; catches misspellings like \"Meetng notes\"",
+    label: "typo-tolerant",
+    defaultThreshold: 0.85,
+    async findCandidates(files, context) {
+        return fuzzyTitleMatches(files, context);
+    },
+    async findCandidatesFor(changed, files, context) {
+        return fuzzyTitleMatches(files, context, pathSet(changed));
+    },
+    async score(file1, file2) {
+        return fuzzyTitleSimilarity(file1.basename, file2.basename);
+    },
+};
+
+async function similarContentMatches(
+    files: TFile[],
+    context: StrategyContext,
+    changed?: Set<string>
+): Promise<StrategyMatch[] | null> {
+    const candidates = await findNearContentDuplicates(
+        context.app,
+        files,
+        context.settings,
+        context.threshold,
+        context.signal,
+        context.onProgress,
+        context.signatures,
+        changed,
+        context.staleSignatures
+    );
+    if (!candidates) return null;
+    return candidates.map((c): StrategyMatch => ({
+        file1: c.file1,
+        file2: c.file2,
+        score: c.contentSimilarity || 0,
+        details: {
+            contentSimilarity: c.contentSimilarity,
+            containment1In2: c.containment1In2,
+            containment2In1: c.containment2In1,
+            likelyDuplicate: c.likelyDuplicate,
+        },
+    }));
+}
+
+export const similarContentStrategy: SimilarityStrategy = {
+    id: "similar-content",
+    name: "Similar content",
+    description: "MinHash/LSH over note bodies, independent of titles (reads every note)",
+    label: "similar content",
+    defaultThreshold: 0.6,
+    async findCandidates(files, context) {
+        // Only incremental runs come back null
+        return (await similarContentMatches(files, context)) ?? [];
+    },
+    async findCandidatesFor(changed, files, context) {
+        return similarContentMatches(files, context, pathSet(changed));
+    },
+    async score(file1, file2, context) {
+        const text1 = await readComparableText(context.app, file1, context.settings);
+        const text2 = await readComparableText(context.app, file2, context.settings);
+        return compareContent(text1, text2, context.settings).contentSimilarity || 0;
+    },
+};
+
+async function metadataMatches(
+    files: TFile[],
+    context: StrategyContext,
+    changed?: Set<string>
+): Promise<StrategyMatch[]> {
+    const candidates = await findMetadataDuplicates(
+        context.app,
+        files,
+        context.threshold,
+        context.settings.metadataIdentifierKeys,
+        context.signal,
+        context.onProgress,
+        changed
+    );
+    return candidates.map((c): StrategyMatch => ({
+        file1: c.file1,
+        file2: c.file2,
+        score: c.metadataSimilarity || 0,
+        details: c.sharedIdentifier
+            ? { metadataSimilarity: c.metadataSimilarity, sharedIdentifier: c.sharedIdentifier }
+            : { metadataSimilarity: c.metadataSimilarity },
+    }));
+}
+
+export const metadataStrategy: SimilarityStrategy = {
+    id: "metadata",
+    name: "Metadata",
+    description: "Shared identifier properties (url, isbn, doi, ...), tags and outgoing links",
+    label: "metadata",
+    defaultThreshold: 0.7,
+    scoresOtherCandidates: true,
+    async findCandidates(files, context) {
+        return metadataMatches(files, context);
+    },
+    async findCandidatesFor(changed, files, context) {
+        return metadataMatches(files, context, pathSet(changed));
+    },
+    async score(file1, file2, context) {
+        const keys = context.settings.metadataIdentifierKeys;
+        return metadataSimilarity(
+            getNoteMetadata(context.app, file1, keys),
+            getNoteMetadata(context.app, file2, keys)
+        ).score;
+    },
+};
+
+export const linkGraphStrategy: SimilarityStrategy = {
+    id: "link-graph",
+    name: "Link neighborhood",
+    description: "Notes linked from and linking to the same notes, whatever their names (\"JS\" and \"JavaScript\")",
+    label: "structurally similar",
+    defaultThreshold: 0.5,
+    async findCandidates(files, context) {
+        const candidates = await findLinkGraphDuplicates(
+            context.app,
+            files,
+            context.threshold,
+            context.signal,
+            context.onProgress
+        );
+        return candidates.map((c): StrategyMatch => ({
+            file1: c.file1,
+            file2: c.file2,
+            score: c.linkSimilarity || 0,
+            details: { linkSimilarity: c.linkSimilarity, sharedNeighbors: c.sharedNeighbors },
+        }));
+    },
+    async findCandidatesFor() {
+        // An edited note changes the backlinks of the notes it links to,
+        // which changes pairs between notes that weren't edited
+        return null;
+    },
+    async score(file1, file2, context) {
+        const neighbors = getLinkNeighbors(context.app);
+        return neighborSimilarity(
+            file1.path,
+            Array.from(neighbors.get(file1.path) || []),
+            file2.path,
+            Array.from(neighbors.get(file2.path) || [])
+        ).score;
+    },
+};
+
+/** Register the strategies that ship with the plugin (idempotent). */
+export function registerBuiltinStrategies(): void {
+    for (const strategy of [titleStrategy, fuzzyTitleStrategy, similarContentStrategy, metadataStrategy, linkGraphStrategy]) {
+        if (!getStrategy(strategy.id)) registerStrategy(strategy);
+    }
+}
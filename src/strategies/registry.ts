@@ -0,0 +1,41 @@
+import { DuplicateReviewerSettings, SimilarityStrategy } from "src/types";
+
+// Registered strategies in registration order (built-ins first)
+const strategies: Map<string, SimilarityStrategy> = new Map();
+
+/**
+ * Register a similarity strategy.  Throws if the id is already taken so two
+ * matchers can't silently shadow each other's settings.
+ */
+export function registerStrategy(strategy: SimilarityStrategy): void {
+    if (strategies.has(strategy.id)) {
+        throw new Error(`Similarity strategy "${strategy.id}" is already registered`);
+    }
+    strategies.set(strategy.id, strategy);
+}
+
+/** Remove a strategy by id.  Returns false if it wasn't registered. */
+export function unregisterStrategy(id: string): boolean {
+    return strategies.delete(id);
+}
+
+export function getStrategy(id: string): SimilarityStrategy | undefined {
+    return strategies.get(id);
+}
+
+/** All registered strategies, in registration order. */
+export function getStrategies(): SimilarityStrategy[] {
+    return Array.from(strategies.values());
+}
+
+/** Registered strategies that are enabled in settings, in registration order. */
+export function getEnabledStrategies(settings: DuplicateReviewerSettings): SimilarityStrategy[] {
+    return getStrategies().filter((s) => settings.enabledStrategies.includes(s.id));
+}
+
+/** A strategy's threshold from settings, falling back to its default. */
+export function getStrategyThreshold(settings: DuplicateReviewerSettings, id: string): number {
+    const stored = settings.strategyThresholds[id];
+    if (typeof stored === "number") return stored;
+    return strategies.get(id)?.defaultThreshold ?? 1;
+}
@@ -1,64 +1,338 @@
-import { TFile } from "obsidian";
+import { App, TFile } from "obsidian";
+
+/**
+ * How a scan decides that notes are duplicates.
+ *   - "title":         similar normalized titles (optionally refined by content)
+ *   - "exact-content": byte-identical bodies after normalization, regardless of title
+ *   - "near-content":  similar bodies found via MinHash/LSH, regardless of title
+ *   - "attachment":    byte-identical non-markdown files (images, PDFs, ...)
+ */
+export type ScanMode = "title" | "exact-content" | "near-content" | "attachment";
 
 export interface DuplicateCandidate {
     file1: TFile;
     file2: TFile;
     titleSimilarity: number;
+    fuzzyTitleSimilarity?: number;
     contentSimilarity?: number;
+    /** Share of file1's shingles found in file2 (full-document comparison only). */
+    containment1In2?: number;
+    /** Share of file2's shingles found in file1 (full-document comparison only). */
+    containment2In1?: number;
     likelyDuplicate?: boolean;
+    /** Tag / link overlap, or 1 for a shared identifier (metadata strategy only). */
+    metadataSimilarity?: number;
+    /** Overlap of the two notes' link neighborhoods (link-graph strategy only). */
+    linkSimilarity?: number;
+    /** Paths both notes link to or are linked from (link-graph strategy only). */
+    sharedNeighbors?: string[];
+    /** Score per similarity strategy id that proposed this pair. */
+    scores?: Record<string, number>;
+    /** Ids of the strategies that proposed this pair, in run order. */
+    matchedBy?: string[];
+    /** Title of file1 that matched, when it was an alias or heading rather than the filename. */
+    titleVariant1?: TitleVariant;
+    /** Title of file2 that matched, when it was an alias or heading rather than the filename. */
+    titleVariant2?: TitleVariant;
+    /** An identifier property value (e.g. the same `url`) both notes carry: a high-confidence match. */
+    sharedIdentifier?: { key: string; value: string };
+}
+
+/**
+ * One title a note can be matched under: its filename, a frontmatter alias,
+ * or its first H1 heading.
+ */
+export interface TitleVariant {
+    title: string;
+    source: "filename" | "alias" | "heading";
 }
 
 export interface DuplicateGroup {
+    /** Member paths, sorted and joined by \0; unlike the title, unique per group. */
+    id: string;
+    mode: ScanMode;
     normalizedTitle: string;
     originalTitles: Set<string>;
+    /** Title of the member most similar to the rest of the group. */
+    representativeTitle: string;
     files: TFile[];
     candidates: DuplicateCandidate[];
+    /** Score of each pair inside the group, keyed by `pairKey`. */
+    pairScores: Map<string, number>;
+    /**
+     * Folder comparisons only: the note from the folder being checked.  The
+     * other files are its matches in the folder it was compared against.
+     */
+    sourceFile?: TFile;
+    /** Attachment scans only: the notes linking to or embedding each file, keyed by path. */
+    references?: Map<string, TFile[]>;
+}
+
+/**
+ * How candidate pairs are merged into groups:
+ *   - "single":   connected components; A~B and B~C put A, B, C together
+ *   - "complete": every pair in a group must itself be a candidate
+ *   - "average":  groups merge only while their mean pair score (missing
+ *                 pairs count as 0) stays at or above `clusterMinAverageScore`
+ */
+export type ClusterLinkage = "single" | "complete" | "average";
+
+/**
+ * A user regex rewrite applied to titles before comparison, e.g. stripping
+ * Zettelkasten timestamps.  Rules run in list order.
+ */
+export interface TitleRewriteRule {
+    pattern: string;
+    replacement: string;
+    flags: string;
+    enabled: boolean;
+}
+
+/**
+ * How note bodies are compared:
+ *   - "prefix": word Jaccard on the first `contentCharsToAnalyze` characters
+ *   - "full":   word-shingle Jaccard and containment over the whole note
+ */
+export type ContentComparisonMode = "prefix" | "full";
+
+/**
+ * How title words count towards title similarity:
+ *   - "none": every word weighs the same (plain Jaccard)
+ *   - "idf":  words are weighted by rarity across the scanned titles
+ */
+export type TitleWeighting = "none" | "idf";
+
+/**
+ * Which note of a group to keep when resolving it automatically:
+ *   - "newest":         most recently modified
+ *   - "largest":        largest file
+ *   - "most-backlinks": linked from the most notes
+ *   - "folder-order":   in the earliest of `folders`
+ *   - "has-key":        the only note with frontmatter property `key`
+ */
+export type KeepRuleType = "newest" | "largest" | "most-backlinks" | "folder-order" | "has-key";
+
+export interface KeepRule {
+    type: KeepRuleType;
+    enabled: boolean;
+    /** Folder paths, most preferred first ("folder-order" only). */
+    folders?: string[];
+    /** Frontmatter property ("has-key" only). */
+    key?: string;
 }
 
 export interface DuplicateReviewerSettings {
-    titleSimilarityThreshold: number;
+    enabledStrategies: string[];
+    strategyThresholds: Record<string, number>;
+    titleRewriteRules: TitleRewriteRule[];
+    foldDiacritics: boolean;
+    titleWeighting: TitleWeighting;
+    pruneCommonTitleWords: boolean;
+    matchAliases: boolean;
+    clusterLinkage: ClusterLinkage;
+    clusterMinAverageScore: number;
     enableContentSimilarity: boolean;
     contentSimilarityThreshold: number;
+    contentComparisonMode: ContentComparisonMode;
     contentCharsToAnalyze: number;
+    dropCodeBlocks: boolean;
+    dropEmbeds: boolean;
+    shingleSize: number;
+    minHashBands: number;
+    minHashRows: number;
     ignoredFolders: string[];
     commonPatterns: string[];
     maxComparisonPanes: number;
+    warnOnDuplicateTitle: boolean;
+    /** Frontmatter properties whose equal values mark two notes as the same source. */
+    metadataIdentifierKeys: string[];
+    /** Rules that must agree on a group's winner for it to be resolved automatically. */
+    keepRules: KeepRule[];
 }
 
 export const DEFAULT_SETTINGS: DuplicateReviewerSettings = {
-    titleSimilarityThreshold: 0.8,
+    enabledStrategies: ["title"],
+    strategyThresholds: {},
+    titleRewriteRules: [],
+    foldDiacritics: true,
+    titleWeighting: "none",
+    pruneCommonTitleWords: false,
+    matchAliases: false,
+    clusterLinkage: "single",
+    clusterMinAverageScore: 0.7,
     enableContentSimilarity: false,
     contentSimilarityThreshold: 0.6,
+    contentComparisonMode: "prefix",
     contentCharsToAnalyze: 1000,
+    dropCodeBlocks: false,
+    dropEmbeds: true,
+    shingleSize: 3,
+    minHashBands: 20,
+    minHashRows: 3,
     ignoredFolders: [".obsidian", ".git", ".trash", "998 Readwise"],
     commonPatterns: ["Notes", "Untitled", "Note", "New Note"],
     maxComparisonPanes: 3,
+    warnOnDuplicateTitle: true,
+    metadataIdentifierKeys: ["url", "source", "isbn", "doi"],
+    keepRules: [
+        { type: "newest", enabled: true },
+        { type: "most-backlinks", enabled: true },
+    ],
 };
 
+// --- Similarity strategies ---
+
+/** A pair proposed and scored by a strategy. */
+export interface StrategyMatch {
+    file1: TFile;
+    file2: TFile;
+    score: number;
+    /** Extra candidate fields the strategy computed (e.g. contentSimilarity). */
+    details?: Partial<DuplicateCandidate>;
+}
+
+export interface StrategyContext {
+    app: App;
+    settings: DuplicateReviewerSettings;
+    /** This strategy's threshold from settings (or its default). */
+    threshold: number;
+    signal?: AbortSignal;
+    onProgress?: (progress: ScanProgress) => void;
+    /**
+     * Per-file signatures keyed by path, reused from the previous scan where
+     * the file is unchanged.  Strategies may read it and add to it.
+     */
+    signatures?: Map<string, FileSignature>;
+    /**
+     * Incremental rescans only: the previous scan's signatures of files
+     * changed or removed since, for strategies whose candidates between
+     * unchanged files can depend on them.
+     */
+    staleSignatures?: Map<string, FileSignature>;
+}
+
+/**
+ * A pluggable duplicate matcher.  The scanner runs every enabled strategy
+ * and merges their matches into one candidate list.
+ */
+export interface SimilarityStrategy {
+    /** Stable id, used as the settings and score key. */
+    id: string;
+    /** Name shown in the settings tab. */
+    name: string;
+    description: string;
+    /** Short tag shown on groups this strategy matched. */
+    label: string;
+    defaultThreshold: number;
+    /**
+     * Candidate generation + scoring: propose pairs among `files` and return
+     * those scoring at or above `context.threshold`.
+     */
+    findCandidates(files: TFile[], context: StrategyContext): Promise<StrategyMatch[]>;
+    /**
+     * Incremental variant of `findCandidates`: return exactly the matches it
+     * would return that involve at least one of `changed`.  Return null when
+     * the current settings make scores depend on the whole file set, or the
+     * changes also alter pairs between unchanged files; the scan then falls
+     * back to a full run.  Strategies without it always do.
+     */
+    findCandidatesFor?(
+        changed: TFile[],
+        files: TFile[],
+        context: StrategyContext
+    ): Promise<StrategyMatch[] | null>;
+    /** Score a single pair (0..1), e.g. to rank matches for one note. */
+    score(file1: TFile, file2: TFile, context: StrategyContext): Promise<number>;
+    /**
+     * Cheap strategies can set this to also score the pairs other strategies
+     * propose, so their signal counts towards every candidate's score even
+     * below their own threshold.
+     */
+    scoresOtherCandidates?: boolean;
+}
+
 // --- Cache & progress types ---
 
+/** Content fingerprints of one file, computed once and reused while it's unchanged. */
+export interface FileSignature {
+    /** Hash of the normalized body; "" for an empty body. */
+    bodyHash?: string;
+    /** MinHash of the body's shingles; empty when it has none. */
+    minHash?: number[];
+}
+
+/** Everything a scan produced, including what the next rescan can reuse. */
+export interface ScanResult {
+    groups: DuplicateGroup[];
+    /** Every candidate pair before exclusions were applied. */
+    pairs: DuplicateCandidate[];
+    signatures: Map<string, FileSignature>;
+}
+
+/** What a rescan may reuse from the previous scan of the same folder. */
+export interface PreviousScan {
+    /** Paths created, edited or renamed since; pairs touching them are recomputed. */
+    changed: Set<string>;
+    /** Previous pairs between files that still exist and are unchanged. */
+    pairs: DuplicateCandidate[];
+    /** Previous signatures of unchanged files. */
+    signatures: Map<string, FileSignature>;
+    /** Previous signatures of the changed files and of files removed since. */
+    staleSignatures: Map<string, FileSignature>;
+}
+
+/** A candidate pair as stored in the cache, with files replaced by their paths. */
+export type SerializedCandidate = Omit<DuplicateCandidate, "file1" | "file2"> & {
+    path1: string;
+    path2: string;
+};
+
 export interface SerializedDuplicateGroup {
+    mode: ScanMode;
     normalizedTitle: string;
     originalTitles: string[];
+    representativeTitle?: string;
     filePaths: string[];
+    /** Missing on entries written before pair scores were cached. */
+    candidates?: SerializedCandidate[];
 }
 
 export interface CacheEntry {
     folderPath: string;
+    mode: ScanMode;
     scanTimestamp: number;
     fileCount: number;
     maxMtime: number;
     groups: SerializedDuplicateGroup[];
+    /** Candidate pairs before exclusions, for incremental rescans. */
+    pairs?: SerializedCandidate[];
+    /** mtime of every scanned file, to tell which ones changed since. */
+    fileMtimes?: Record<string, number>;
+    signatures?: Record<string, FileSignature>;
     settings: {
-        titleThreshold: number;
+        strategies: string;
+        titleRules: string;
+        foldDiacritics: boolean;
+        titleWeighting: TitleWeighting;
+        pruneCommonTitleWords: boolean;
+        matchAliases: boolean;
+        clusterLinkage: ClusterLinkage;
+        clusterMinAverageScore: number;
         enableContent: boolean;
         contentThreshold: number;
+        contentMode: ContentComparisonMode;
         contentChars: number;
+        dropCodeBlocks: boolean;
+        dropEmbeds: boolean;
+        shingleSize: number;
+        minHashBands: number;
+        minHashRows: number;
+        identifierKeys: string;
     };
 }
 
 export interface ScanProgress {
-    stage: "collecting" | "comparing" | "refining" | "grouping" | "done";
+    stage: "collecting" | "hashing" | "comparing" | "refining" | "grouping" | "done";
     current: number;
     total: number;
 }
@@ -0,0 +1,201 @@
+import { ItemView, Notice, TFile, ViewStateResult, WorkspaceLeaf } from "obsidian";
+import { DiffHunk, diffLines, diffWords } from "src/similarity";
+
+export const DUPLICATE_DIFF_VIEW_TYPE = "duplicate-diff-view";
+
+// Unchanged lines shown around a change before the rest are folded
+const CONTEXT_LINES = 3;
+// Changes longer than this (either side) aren't word-diffed
+const MAX_WORD_DIFF_LINES = 20;
+
+interface DiffViewState {
+    file1?: string;
+    file2?: string;
+}
+
+type Side = "left" | "right";
+
+/**
+ * Side-by-side line diff of two notes, with changed words highlighted.
+ * Each change has buttons to copy its block to the other note, so content
+ * only one copy has can be kept before the other is deleted.  Refreshes
+ * when either note is modified.
+ */
+export class DuplicateDiffView extends ItemView {
+    private file1: TFile | null = null;
+    private file2: TFile | null = null;
+    // Texts the current diff was computed from
+    private text1: string = "";
+    private text2: string = "";
+    // Folded equal blocks the user has expanded, by left start line
+    private expanded: Set<number> = new Set();
+
+    constructor(leaf: WorkspaceLeaf) {
+        super(leaf);
+    }
+
+    public getViewType(): string {
+        return DUPLICATE_DIFF_VIEW_TYPE;
+    }
+
+    public getDisplayText(): string {
+        return this.file1 && this.file2
+            ? `Diff: ${this.file1.basename} ↔ ${this.file2.basename}`
+            : "Duplicate Diff";
+    }
+
+    public getIcon(): string {
+        return "diff";
+    }
+
+    async onOpen(): Promise<void> {
+        this.registerEvent(this.app.vault.on("modify", (file) => {
+            if (file === this.file1 || file === this.file2) void this.refresh();
+        }));
+        this.registerEvent(this.app.vault.on("delete", (file) => {
+            if (file === this.file1 || file === this.file2) void this.refresh();
+        }));
+    }
+
+    getState(): Record<string, unknown> {
+        return { file1: this.file1?.path, file2: this.file2?.path };
+    }
+
+    async setState(state: DiffViewState, result: ViewStateResult): Promise<void> {
+        this.file1 = state.file1 ? this.app.vault.getFileByPath(state.file1) : null;
+        this.file2 = state.file2 ? this.app.vault.getFileByPath(state.file2) : null;
+        this.expanded.clear();
+        await this.refresh();
+        await super.setState(state, result);
+    }
+
+    private async refresh(): Promise<void> {
+        const { contentEl } = this;
+        const file1 = this.file1 && this.app.vault.getFileByPath(this.file1.path);
+        const file2 = this.file2 && this.app.vault.getFileByPath(this.file2.path);
+        if (!file1 || !file2) {
+            contentEl.empty();
+            contentEl.createDiv({ cls: "duplicate-review-empty", text: "One of the notes no longer exists." });
+            return;
+        }
+
+        this.text1 = await this.app.vault.read(file1);
+        this.text2 = await this.app.vault.read(file2);
+        this.render(diffLines(this.text1, this.text2));
+    }
+
+    private render(hunks: DiffHunk[]): void {
+        const { contentEl } = this;
+        contentEl.empty();
+        contentEl.addClass("duplicate-diff-view");
+
+        const header = contentEl.createDiv("duplicate-diff-row duplicate-diff-header");
+        for (const file of [this.file1!, this.file2!]) {
+            const cell = header.createDiv({ cls: "duplicate-diff-cell", text: file.path });
+            cell.addEventListener("click", () => this.app.workspace.getLeaf("tab").openFile(file));
+        }
+
+        if (hunks.every((h) => h.type === "equal")) {
+            contentEl.createDiv({ cls: "duplicate-review-empty", text: "The notes are identical." });
+        }
+
+        for (const hunk of hunks) {
+            if (hunk.type === "equal") {
+                this.renderEqual(contentEl, hunk);
+            } else {
+                this.renderChange(contentEl, hunk);
+            }
+        }
+    }
+
+    /** Shared lines, folded to a few lines of context around changes unless expanded. */
+    private renderEqual(parentEl: HTMLElement, hunk: DiffHunk): void {
+        const lines = hunk.left;
+        const foldable = lines.length > CONTEXT_LINES * 2 + 1 && !this.expanded.has(hunk.leftStart);
+        if (!foldable) {
+            this.renderLines(parentEl, lines, lines, "is-equal");
+            return;
+        }
+
+        const atStart = hunk.leftStart === 0 && hunk.rightStart === 0;
+        const atEnd = hunk.leftStart + lines.length === this.text1.split("\n").length;
+        const head = atStart ? [] : lines.slice(0, CONTEXT_LINES);
+        const tail = atEnd ? [] : lines.slice(lines.length - CONTEXT_LINES);
+        this.renderLines(parentEl, head, head, "is-equal");
+        const fold = parentEl.createDiv({
+            cls: "duplicate-diff-fold",
+            text: `⋯ ${lines.length - head.length - tail.length} unchanged lines`,
+        });
+        fold.addEventListener("click", () => {
+            this.expanded.add(hunk.leftStart);
+            this.render(diffLines(this.text1, this.text2));
+        });
+        this.renderLines(parentEl, tail, tail, "is-equal");
+    }
+
+    private renderLines(parentEl: HTMLElement, left: string[], right: string[], cls: string): void {
+        if (left.length === 0 && right.length === 0) return;
+        const row = parentEl.createDiv(`duplicate-diff-row ${cls}`);
+        row.createDiv({ cls: "duplicate-diff-cell", text: left.join("\n") });
+        row.createDiv({ cls: "duplicate-diff-cell", text: right.join("\n") });
+    }
+
+    /** Removed lines on the left, added on the right, changed words marked, with copy buttons. */
+    private renderChange(parentEl: HTMLElement, hunk: DiffHunk): void {
+        const row = parentEl.createDiv("duplicate-diff-row is-change");
+        const leftCell = row.createDiv("duplicate-diff-cell is-removed");
+        const rightCell = row.createDiv("duplicate-diff-cell is-added");
+
+        const wordDiff = hunk.left.length > 0 && hunk.right.length > 0
+            && hunk.left.length <= MAX_WORD_DIFF_LINES && hunk.right.length <= MAX_WORD_DIFF_LINES;
+        if (wordDiff) {
+            for (const part of diffWords(hunk.left.join("\n"), hunk.right.join("\n"))) {
+                const text = part.items.join("");
+                if (part.op !== "added") {
+                    leftCell.createSpan({ cls: part.op === "removed" ? "duplicate-diff-word" : "", text });
+                }
+                if (part.op !== "removed") {
+                    rightCell.createSpan({ cls: part.op === "added" ? "duplicate-diff-word" : "", text });
+                }
+            }
+        } else {
+            leftCell.setText(hunk.left.join("\n"));
+            rightCell.setText(hunk.right.join("\n"));
+        }
+
+        const actions = parentEl.createDiv("duplicate-diff-row duplicate-diff-actions");
+        const leftActions = actions.createDiv("duplicate-diff-cell");
+        const rightActions = actions.createDiv("duplicate-diff-cell");
+        if (hunk.left.length > 0) {
+            leftActions.createEl("button", { text: `Copy to ${this.file2!.basename} →` })
+                .addEventListener("click", () => this.copyBlock(hunk, "right"));
+        }
+        if (hunk.right.length > 0) {
+            rightActions.createEl("button", { text: `← Copy to ${this.file1!.basename}` })
+                .addEventListener("click", () => this.copyBlock(hunk, "left"));
+        }
+    }
+
+    /**
+     * Insert one side's lines of a change into the note on `to`, just before
+     * that note's own lines of the change, so nothing there is overwritten.
+     */
+    private async copyBlock(hunk: DiffHunk, to: Side): Promise<void> {
+        const target = to === "right" ? this.file2! : this.file1!;
+        const expected = to === "right" ? this.text2 : this.text1;
+        const block = to === "right" ? hunk.left : hunk.right;
+        const at = to === "right" ? hunk.rightStart : hunk.leftStart;
+
+        try {
+            await this.app.vault.process(target, (data) => {
+                if (data !== expected) throw new Error(`${target.basename} changed since the diff was shown`);
+                const lines = data.split("\n");
+                lines.splice(at, 0, ...block);
+                return lines.join("\n");
+            });
+        } catch (error) {
+            new Notice(`Could not copy the block: ${error.message}`);
+        }
+        await this.refresh();
+    }
+}
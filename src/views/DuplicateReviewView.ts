@@ -1,9 +1,24 @@
 import { ItemView, WorkspaceLeaf, Menu, TFile } from "obsidian";
 import type DuplicateReviewerPlugin from "src/main";
-import { DuplicateGroup, ScanProgress } from "src/types";
+import { DuplicateCandidate, DuplicateGroup, ScanMode, ScanProgress, TitleVariant } from "src/types";
+import { getStrategy } from "src/strategies/registry";
+import { groupId, pairKey } from "src/scanner";
+import { SUBSET_THRESHOLD } from "src/similarity";
 
 export const DUPLICATE_REVIEW_VIEW_TYPE = "duplicate-review-view";
 
+// Group-header label per scan mode; title groups need no label
+const MODE_LABELS: Partial<Record<ScanMode, string>> = {
+    "exact-content": "identical content",
+    "near-content": "similar content",
+    "attachment": "identical file",
+};
+
+// Shared link neighbors named in a group before "+N more"
+const MAX_LISTED_NEIGHBORS = 5;
+
+type GroupSortOrder = "size" | "confidence";
+
 const COLLAPSE_ICON = `<svg xmlns="http://www.w3.org/2000/svg" width="24" height="24" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round"><polyline points="6 9 12 15 18 9"></polyline></svg>`;
 
 export class DuplicateReviewView extends ItemView {
@@ -14,6 +29,7 @@ export class DuplicateReviewView extends ItemView {
     private scanInProgress: boolean = false;
     private currentFolder: string = "";
     private resultFromCache: boolean = false;
+    private sortOrder: GroupSortOrder = "size";
 
     // Live-updated progress bar elements (kept across updateProgress calls)
     private progressBarTrack: HTMLDivElement | null = null;
@@ -43,6 +59,18 @@ export class DuplicateReviewView extends ItemView {
     }
 
     public onHeaderMenu(menu: Menu): void {
+        menu.addItem((item) => {
+            item.setTitle("Sort by group size")
+                .setIcon("list")
+                .setChecked(this.sortOrder === "size")
+                .onClick(() => this.setSortOrder("size"));
+        });
+        menu.addItem((item) => {
+            item.setTitle("Sort by confidence")
+                .setIcon("percent")
+                .setChecked(this.sortOrder === "confidence")
+                .onClick(() => this.setSortOrder("confidence"));
+        });
         menu.addItem((item) => {
             item.setTitle("Close")
                 .setIcon("cross")
@@ -56,15 +84,67 @@ export class DuplicateReviewView extends ItemView {
      * Set the duplicate groups to display.
      */
     public setGroups(groups: DuplicateGroup[], folderPath: string, fromCache: boolean = false): void {
-        this.groups = groups;
+        this.groups = this.sortGroups(groups);
         this.currentFolder = folderPath;
         this.currentGroupIndex = 0;
+        // A lone group (e.g. one note's matches) opens expanded
+        if (groups.length === 1) this.expandedGroups.add(groups[0].id);
         this.scanInProgress = false;
         this.resultFromCache = fromCache;
         this.clearProgressRefs();
         this.redraw();
     }
 
+    /** Groups currently listed, in display order. */
+    public getGroups(): DuplicateGroup[] {
+        return this.groups.filter((g) => g.files.length > 1);
+    }
+
+    /** Take groups that have been resolved elsewhere off the list. */
+    public removeGroups(groups: DuplicateGroup[]): void {
+        const removed = new Set(groups);
+        this.groups = this.groups.filter((g) => !removed.has(g));
+        this.redraw();
+    }
+
+    private setSortOrder(order: GroupSortOrder): void {
+        this.sortOrder = order;
+        this.groups = this.sortGroups(this.groups);
+        this.currentGroupIndex = 0;
+        this.redraw();
+    }
+
+    /** Largest groups first, or most confident first; ties keep scan order. */
+    private sortGroups(groups: DuplicateGroup[]): DuplicateGroup[] {
+        const sorted = [...groups];
+        if (this.sortOrder === "confidence") {
+            sorted.sort((a, b) => this.groupConfidence(b) - this.groupConfidence(a));
+        } else {
+            sorted.sort((a, b) => b.files.length - a.files.length);
+        }
+        return sorted;
+    }
+
+    /** Best pair score inside a group, or -1 when no scores are known. */
+    private groupConfidence(group: DuplicateGroup): number {
+        let best = -1;
+        for (const score of group.pairScores.values()) {
+            if (score > best) best = score;
+        }
+        return best;
+    }
+
+    /** A file's score against its best match in the group, or null if unscored. */
+    private fileScore(group: DuplicateGroup, file: TFile): number | null {
+        let best: number | null = null;
+        for (const other of group.files) {
+            if (other === file) continue;
+            const score = group.pairScores.get(pairKey(file, other));
+            if (score !== undefined && (best === null || score > best)) best = score;
+        }
+        return best;
+    }
+
     /**
      * Show scanning progress indicator.
      */
@@ -89,6 +169,7 @@ export class DuplicateReviewView extends ItemView {
 
         const stageLabel =
             progress.stage === "collecting" ? "Collecting files…" :
+            progress.stage === "hashing"    ? "Hashing content…" :
             progress.stage === "comparing" ? "Comparing titles…" :
             progress.stage === "refining"   ? "Refining with content…" :
             progress.stage === "grouping"   ? "Grouping results…" :
@@ -181,6 +262,10 @@ export class DuplicateReviewView extends ItemView {
         summaryEl.createEl("div", {
             text: `Found ${this.groups.length} groups with ${totalFiles} files`,
         });
+        const autoResolveBtn = summaryEl.createDiv("duplicate-review-auto-resolve-btn");
+        autoResolveBtn.setText("Auto-resolve…");
+        autoResolveBtn.setAttr("aria-label", "Keep one file per group using the keep rules in settings");
+        autoResolveBtn.addEventListener("click", () => this.plugin.autoResolveGroups(this.getGroups()));
 
         // Progress
         const resolvedCount = this.groups.filter(
@@ -207,7 +292,7 @@ export class DuplicateReviewView extends ItemView {
     }
 
     private renderGroup(parentEl: HTMLElement, group: DuplicateGroup, index: number): void {
-        const isExpanded = this.expandedGroups.has(group.normalizedTitle);
+        const isExpanded = this.expandedGroups.has(group.id);
 
         const folderEl = parentEl.createDiv("nav-folder");
         const folderTitleEl = folderEl.createDiv("nav-folder-title");
@@ -223,22 +308,75 @@ export class DuplicateReviewView extends ItemView {
             childrenEl.style.display = "none";
         }
 
-        // Title with file count
-        const titles = Array.from(group.originalTitles).slice(0, 2).join(", ");
-        const titleText = group.originalTitles.size > 2
-            ? `${titles}... (${group.files.length} files)`
-            : `${titles} (${group.files.length} files)`;
+        // Title with file count, representative first; folder comparisons
+        // name the source note and count its matches
+        const others = Array.from(group.originalTitles).filter((t) => t !== group.representativeTitle);
+        const titles = [group.representativeTitle, ...others].slice(0, 2).join(", ");
+        const matchCount = group.files.length - 1;
+        const titleText = group.sourceFile
+            ? `${group.sourceFile.basename} (${matchCount} ${matchCount === 1 ? "match" : "matches"})`
+            : group.originalTitles.size > 2
+                ? `${titles}... (${group.files.length} files)`
+                : `${titles} (${group.files.length} files)`;
 
         folderTitleEl.createDiv("nav-folder-title-content").setText(titleText);
 
+        const confidence = this.groupConfidence(group);
+        if (confidence >= 0) {
+            const likely = group.candidates.some((c) => c.likelyDuplicate || c.sharedIdentifier);
+            const badge = folderTitleEl.createDiv({
+                cls: "duplicate-review-confidence-badge",
+                text: `${Math.round(confidence * 100)}%`,
+            });
+            badge.toggleClass("is-likely", likely);
+            badge.setAttr("aria-label", likely ? "Best pair score (likely duplicate)" : "Best pair score");
+        }
+
+        const modeLabel = MODE_LABELS[group.mode];
+        if (modeLabel) {
+            folderTitleEl.createDiv({
+                cls: "duplicate-review-mode-badge",
+                text: modeLabel,
+            });
+        } else {
+            // Label which strategies matched, unless it's only the default title matcher
+            for (const label of this.strategyLabels(group)) {
+                folderTitleEl.createDiv({
+                    cls: "duplicate-review-mode-badge",
+                    text: label,
+                });
+            }
+        }
+
+        // Aliases / headings that produced the match, when not the filenames
+        for (const variant of this.matchedTitleVariants(group)) {
+            const label = `${variant.source}: ${variant.title}`;
+            const badge = folderTitleEl.createDiv({
+                cls: "duplicate-review-mode-badge duplicate-review-variant-badge",
+                text: label,
+            });
+            badge.setAttr("aria-label", `Matched via ${variant.source} "${variant.title}"`);
+        }
+
+        // Identifier properties the notes have in common
+        const sharedKeys = new Set(group.candidates.map((c) => c.sharedIdentifier?.key).filter(Boolean));
+        for (const key of sharedKeys) {
+            const badge = folderTitleEl.createDiv({
+                cls: "duplicate-review-mode-badge duplicate-review-variant-badge",
+                text: `same ${key}`,
+            });
+            const value = group.candidates.find((c) => c.sharedIdentifier?.key === key)!.sharedIdentifier!.value;
+            badge.setAttr("aria-label", `Both notes have ${key}: ${value}`);
+        }
+
         // Toggle expand/collapse
         folderTitleEl.onClickEvent(() => {
-            if (this.expandedGroups.has(group.normalizedTitle)) {
-                this.expandedGroups.delete(group.normalizedTitle);
+            if (this.expandedGroups.has(group.id)) {
+                this.expandedGroups.delete(group.id);
                 (collapseIconEl.childNodes[0] as HTMLElement).style.transform = "rotate(-90deg)";
                 childrenEl.style.display = "none";
             } else {
-                this.expandedGroups.add(group.normalizedTitle);
+                this.expandedGroups.add(group.id);
                 (collapseIconEl.childNodes[0] as HTMLElement).style.transform = "";
                 childrenEl.style.display = "block";
             }
@@ -254,6 +392,53 @@ export class DuplicateReviewView extends ItemView {
             });
         }
 
+        // Diff button: line diff of the group's closest pair of notes
+        if (group.mode !== "attachment") {
+            const diffBtn = folderTitleEl.createDiv("duplicate-review-diff-btn");
+            diffBtn.setText("Diff");
+            diffBtn.addEventListener("click", async (e) => {
+                e.stopPropagation();
+                const [file1, file2] = this.closestPair(group);
+                await this.plugin.openDiff(file1, file2);
+            });
+        }
+
+        // Properties button: compare and reconcile the notes' frontmatter
+        if (group.mode !== "attachment") {
+            const propertiesBtn = folderTitleEl.createDiv("duplicate-review-properties-btn");
+            propertiesBtn.setText("Properties");
+            propertiesBtn.addEventListener("click", (e) => {
+                e.stopPropagation();
+                this.plugin.openFrontmatterPanel(group);
+            });
+        }
+
+        // Merge button: fold the notes into one, redirecting links to it
+        if (group.mode !== "attachment") {
+            const mergeBtn = folderTitleEl.createDiv("duplicate-review-merge-btn");
+            mergeBtn.setText("Merge");
+            mergeBtn.addEventListener("click", async (e) => {
+                e.stopPropagation();
+                await this.plugin.mergeGroup(group, () => {
+                    this.groups = this.groups.filter((g) => g !== group);
+                    this.redraw();
+                });
+            });
+        }
+
+        // Resolve button: keep one copy of an attachment, repoint embeds to it
+        if (group.mode === "attachment") {
+            const resolveBtn = folderTitleEl.createDiv("duplicate-review-resolve-btn");
+            resolveBtn.setText("Resolve");
+            resolveBtn.addEventListener("click", (e) => {
+                e.stopPropagation();
+                this.plugin.resolveAttachmentGroup(group, () => {
+                    this.groups = this.groups.filter((g) => g !== group);
+                    this.redraw();
+                });
+            });
+        }
+
         // Dismiss button (persists to ignore list)
         const dismissBtn = folderTitleEl.createDiv("duplicate-review-dismiss-btn");
         dismissBtn.setText("Dismiss");
@@ -273,17 +458,118 @@ export class DuplicateReviewView extends ItemView {
             this.redraw();
         });
 
+        // Full-document comparisons: say which note contains which
+        for (const candidate of group.candidates) {
+            const relation = this.describeRelation(candidate);
+            if (relation) {
+                childrenEl.createDiv({ cls: "duplicate-review-relation", text: relation });
+            }
+            if (candidate.sharedNeighbors?.length) {
+                childrenEl.createDiv({ cls: "duplicate-review-relation", text: this.describeSharedNeighbors(candidate) });
+            }
+        }
+
         // Files in this group
         for (const file of group.files) {
-            this.renderFile(childrenEl, file);
+            const isSource = file === group.sourceFile;
+            this.renderFile(childrenEl, group, file, isSource ? null : this.fileScore(group, file), isSource);
+
+            // Attachments: the notes embedding this copy
+            const references = group.references?.get(file.path);
+            if (references) {
+                this.renderReferences(childrenEl, references);
+            }
+        }
+    }
+
+    /**
+     * Human-readable subset / overlap description for a pair, or null when
+     * containment wasn't computed (prefix comparison mode).
+     */
+    private describeRelation(candidate: DuplicateCandidate): string | null {
+        if (candidate.containment1In2 === undefined || candidate.containment2In1 === undefined) {
+            return null;
+        }
+        const name1 = candidate.file1.basename;
+        const name2 = candidate.file2.basename;
+        const pct = (n: number) => `${Math.round(n * 100)}%`;
+        const oneInTwo = candidate.containment1In2 >= SUBSET_THRESHOLD;
+        const twoInOne = candidate.containment2In1 >= SUBSET_THRESHOLD;
+
+        if (oneInTwo && twoInOne) {
+            return `${name1} ≈ ${name2} (${pct(candidate.contentSimilarity || 0)} overlap)`;
+        }
+        if (oneInTwo) {
+            return `${name1} is a subset of ${name2} (${pct(candidate.containment1In2)} contained)`;
+        }
+        if (twoInOne) {
+            return `${name2} is a subset of ${name1} (${pct(candidate.containment2In1)} contained)`;
+        }
+        return `${name1} and ${name2} partially overlap (${pct(candidate.contentSimilarity || 0)})`;
+    }
+
+    /** Why a link-graph pair matched: the notes both link to or are linked from. */
+    private describeSharedNeighbors(candidate: DuplicateCandidate): string {
+        const shared = candidate.sharedNeighbors || [];
+        const names = shared
+            .slice(0, MAX_LISTED_NEIGHBORS)
+            .map((path) => this.app.vault.getFileByPath(path)?.basename ?? path);
+        const more = shared.length - names.length;
+        return `${candidate.file1.basename} and ${candidate.file2.basename} share ${shared.length} linked notes: `
+            + names.join(", ")
+            + (more > 0 ? `, +${more} more` : "");
+    }
+
+    /** Labels of the strategies behind a group's candidates; empty for plain title matches. */
+    private strategyLabels(group: DuplicateGroup): string[] {
+        const ids = new Set<string>();
+        for (const c of group.candidates) {
+            for (const id of c.matchedBy || []) ids.add(id);
+        }
+        if (ids.size === 0 || (ids.size === 1 && ids.has("title"))) return [];
+
+        const labels: string[] = [];
+        for (const id of ids) {
+            labels.push(getStrategy(id)?.label ?? id);
         }
+        return labels;
     }
 
-    private renderFile(parentEl: HTMLElement, file: TFile): void {
+    /** Distinct alias / heading titles that matched within a group. */
+    private matchedTitleVariants(group: DuplicateGroup): TitleVariant[] {
+        const seen = new Map<string, TitleVariant>();
+        for (const c of group.candidates) {
+            for (const variant of [c.titleVariant1, c.titleVariant2]) {
+                if (variant && variant.source !== "filename") {
+                    seen.set(`${variant.source}\0${variant.title}`, variant);
+                }
+            }
+        }
+        return Array.from(seen.values());
+    }
+
+    private renderFile(
+        parentEl: HTMLElement,
+        group: DuplicateGroup,
+        file: TFile,
+        score: number | null = null,
+        isSource: boolean = false
+    ): void {
         const navFileEl = parentEl.createDiv("nav-file");
 
         const navFileTitle = navFileEl.createDiv("nav-file-title");
-        navFileTitle.createDiv("nav-file-title-content").setText(file.basename);
+        navFileTitle.createDiv("nav-file-title-content").setText(
+            file.extension === "md" ? file.basename : file.name
+        );
+        if (isSource) {
+            navFileTitle.createDiv({ cls: "duplicate-review-source-badge", text: "source" });
+        }
+        if (score !== null) {
+            navFileTitle.createDiv({
+                cls: "duplicate-review-file-score",
+                text: `${Math.round(score * 100)}%`,
+            });
+        }
 
         // Show path hint on hover
         navFileTitle.setAttribute("aria-label", file.path);
@@ -298,11 +584,79 @@ export class DuplicateReviewView extends ItemView {
         navFileTitle.addEventListener("contextmenu", (e) => {
             e.preventDefault();
             const fileMenu = new Menu();
+            const siblings = group.files.filter((f) => f !== file);
+            if (file.extension === "md") {
+                for (const sibling of siblings) {
+                    fileMenu.addItem((item) =>
+                        item
+                            .setTitle(`Diff with ${sibling.basename}`)
+                            .setIcon("diff")
+                            .onClick(() => this.plugin.openDiff(file, sibling))
+                    );
+                }
+            }
+            if (siblings.length > 0) {
+                fileMenu.addItem((item) =>
+                    item
+                        .setTitle("Delete and redirect links")
+                        .setIcon("trash")
+                        .onClick(() =>
+                            this.plugin.deleteAndRedirect(file, siblings, () => this.removeFile(group, file))
+                        )
+                );
+                fileMenu.addSeparator();
+            }
             this.app.workspace.trigger("file-menu", fileMenu, file, "duplicate-review");
             fileMenu.showAtPosition({ x: e.pageX, y: e.pageY });
         });
     }
 
+    /** The two files of a group with the highest pair score; the first two when unscored. */
+    private closestPair(group: DuplicateGroup): [TFile, TFile] {
+        let best: [TFile, TFile] = [group.files[0], group.files[1]];
+        let bestScore = -1;
+        for (let i = 0; i < group.files.length; i++) {
+            for (let j = i + 1; j < group.files.length; j++) {
+                const score = group.pairScores.get(pairKey(group.files[i], group.files[j])) ?? -1;
+                if (score > bestScore) {
+                    bestScore = score;
+                    best = [group.files[i], group.files[j]];
+                }
+            }
+        }
+        return best;
+    }
+
+    /** Drop a deleted file from its group, and the group once it has no duplicates left. */
+    private removeFile(group: DuplicateGroup, file: TFile): void {
+        group.files = group.files.filter((f) => f !== file);
+        // The id follows the members; keep the group open if it was
+        if (this.expandedGroups.delete(group.id)) this.expandedGroups.add(groupId(group.files));
+        group.id = groupId(group.files);
+        group.candidates = group.candidates.filter((c) => c.file1 !== file && c.file2 !== file);
+        for (const other of group.files) group.pairScores.delete(pairKey(file, other));
+        if (group.sourceFile === file || group.files.length < 2) {
+            this.groups = this.groups.filter((g) => g !== group);
+        }
+        this.redraw();
+    }
+
+    /** Notes referencing an attachment, listed under it; each opens on click. */
+    private renderReferences(parentEl: HTMLElement, references: TFile[]): void {
+        const listEl = parentEl.createDiv("duplicate-review-references");
+        if (references.length === 0) {
+            listEl.createDiv({ cls: "duplicate-review-reference", text: "Not embedded in any note" });
+            return;
+        }
+        for (const note of references) {
+            const refEl = listEl.createDiv({ cls: "duplicate-review-reference", text: `↳ ${note.basename}` });
+            refEl.setAttr("aria-label", note.path);
+            refEl.addEventListener("click", async () => {
+                await this.app.workspace.getLeaf().openFile(note);
+            });
+        }
+    }
+
     /**
      * Advance to the next group.
      */
@@ -310,7 +664,7 @@ export class DuplicateReviewView extends ItemView {
         if (this.currentGroupIndex < this.groups.length - 1) {
             this.currentGroupIndex++;
             const group = this.groups[this.currentGroupIndex];
-            this.expandedGroups.add(group.normalizedTitle);
+            this.expandedGroups.add(group.id);
             this.redraw();
         }
     }
@@ -322,7 +676,7 @@ export class DuplicateReviewView extends ItemView {
         if (this.currentGroupIndex > 0) {
             this.currentGroupIndex--;
             const group = this.groups[this.currentGroupIndex];
-            this.expandedGroups.add(group.normalizedTitle);
+            this.expandedGroups.add(group.id);
             this.redraw();
         }
     }
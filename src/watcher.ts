@@ -0,0 +1,172 @@
+import { App, Notice, TFile } from "obsidian";
+import type DuplicateReviewerPlugin from "src/main";
+import { titleWords, wordJaccard } from "src/similarity";
+import { getStrategyThreshold } from "src/strategies/registry";
+import { parseExclusionTargets, resolveLink, shouldSkipPath } from "src/scanner";
+
+// How long the warning stays up unless dismissed
+const NOTICE_DURATION_MS = 15000;
+
+interface TitleMatch {
+    file: TFile;
+    score: number;
+}
+
+/**
+ * Warns when a note is created or renamed to a title that already exists.
+ *
+ * Keeps an inverted index of filename words → paths, built on first use and
+ * then updated from vault events, so a check only scores the notes sharing a
+ * word with the new title.  Scoring is plain word Jaccard against the title
+ * strategy's threshold; IDF weighting and aliases are left to full scans.
+ */
+export class DuplicateWatcher {
+    // word → paths of notes whose title contains it
+    private index: Map<string, Set<string>> | null = null;
+    // path → the words it is indexed under
+    private words: Map<string, Set<string>> = new Map();
+
+    constructor(private plugin: DuplicateReviewerPlugin, private app: App) {}
+
+    /** Drop the index so it is rebuilt with the current title rules on next use. */
+    invalidate(): void {
+        this.index = null;
+        this.words.clear();
+    }
+
+    // ── vault events ─────────────────────────────────────────────────────────
+
+    onCreate(file: TFile): void {
+        this.add(file);
+        this.check(file);
+    }
+
+    onDelete(path: string): void {
+        this.remove(path);
+    }
+
+    onRename(file: TFile, oldPath: string): void {
+        this.remove(oldPath);
+        this.add(file);
+        // Moving a note between folders keeps its title
+        if (oldPath.replace(/^.*\//, "") !== file.name) this.check(file);
+    }
+
+    // ── index ────────────────────────────────────────────────────────────────
+
+    private ensureIndex(): Map<string, Set<string>> {
+        if (!this.index) {
+            this.index = new Map();
+            for (const file of this.app.vault.getMarkdownFiles()) this.add(file);
+        }
+        return this.index;
+    }
+
+    private add(file: TFile): void {
+        if (!this.index || file.extension !== "md") return;
+        if (shouldSkipPath(file.path, this.plugin.settings.ignoredFolders)) return;
+
+        const words = titleWords(file.basename);
+        this.words.set(file.path, words);
+        for (const w of words) {
+            let bucket = this.index.get(w);
+            if (!bucket) {
+                bucket = new Set();
+                this.index.set(w, bucket);
+            }
+            bucket.add(file.path);
+        }
+    }
+
+    private remove(path: string): void {
+        const words = this.words.get(path);
+        if (!this.index || !words) return;
+        for (const w of words) {
+            const bucket = this.index.get(w);
+            bucket?.delete(path);
+            if (bucket?.size === 0) this.index.delete(w);
+        }
+        this.words.delete(path);
+    }
+
+    /** Indexed notes whose title scores at or above `threshold` against `file`'s, best first. */
+    findMatches(file: TFile, threshold: number): TitleMatch[] {
+        const index = this.ensureIndex();
+        const words = this.words.get(file.path) ?? titleWords(file.basename);
+
+        const seen = new Set<string>([file.path]);
+        const matches: TitleMatch[] = [];
+        for (const w of words) {
+            for (const path of index.get(w) || []) {
+                if (seen.has(path)) continue;
+                seen.add(path);
+                const score = wordJaccard(words, this.words.get(path)!);
+                const other = this.app.vault.getFileByPath(path);
+                if (score >= threshold && other) matches.push({ file: other, score });
+            }
+        }
+        return matches.sort((a, b) => b.score - a.score);
+    }
+
+    // ── warning ──────────────────────────────────────────────────────────────
+
+    private check(file: TFile): void {
+        const settings = this.plugin.settings;
+        if (!settings.warnOnDuplicateTitle || file.extension !== "md") return;
+        // The warning uses the title strategy's threshold, so it goes with it
+        if (!settings.enabledStrategies.includes("title")) return;
+        if (shouldSkipPath(file.path, settings.ignoredFolders)) return;
+
+        const threshold = getStrategyThreshold(settings, "title");
+        const match = this.findMatches(file, threshold).find((m) => !this.isExcluded(file, m.file));
+        if (match) this.warn(file, match);
+    }
+
+    /** True when either note lists the other under `duplicate-exclusion`. */
+    private isExcluded(file1: TFile, file2: TFile): boolean {
+        const excludes = (from: TFile, to: TFile) => {
+            const raw = this.app.metadataCache.getFileCache(from)?.frontmatter?.["duplicate-exclusion"];
+            if (raw == null) return false;
+            return parseExclusionTargets(raw).some((target) => resolveLink(this.app, target) === to.path);
+        };
+        return excludes(file1, file2) || excludes(file2, file1);
+    }
+
+    private warn(file: TFile, match: TitleMatch): void {
+        let notice: Notice | null = null;
+        const message = createFragment((frag) => {
+            frag.createDiv({
+                text: `"${file.basename}" looks like a duplicate of "${match.file.basename}" `
+                    + `(${Math.round(match.score * 100)}%).`,
+            });
+            const actions = frag.createDiv("duplicate-review-notice-actions");
+            const action = (text: string, run: () => void | Promise<void>) => {
+                const button = actions.createEl("button", { text });
+                button.addEventListener("click", (e) => {
+                    e.stopPropagation();
+                    notice?.hide();
+                    void run();
+                });
+            };
+            action("Open existing", () => this.app.workspace.getLeaf().openFile(match.file));
+            action("Compare", () => this.plugin.openMultiPaneComparison([match.file, file]));
+            action("Ignore", () => this.ignore(file, match.file));
+        });
+        notice = new Notice(message, NOTICE_DURATION_MS);
+    }
+
+    /** Record `existing` under the new note's `duplicate-exclusion` so it isn't flagged again. */
+    private async ignore(file: TFile, existing: TFile): Promise<void> {
+        const link = `[[${this.app.metadataCache.fileToLinktext(existing, file.path, true)}]]`;
+        try {
+            await this.app.fileManager.processFrontMatter(file, (frontmatter) => {
+                const current = frontmatter["duplicate-exclusion"];
+                const list: unknown[] = current == null ? [] : Array.isArray(current) ? current : [current];
+                if (!list.includes(link)) list.push(link);
+                frontmatter["duplicate-exclusion"] = list;
+            });
+        } catch (error) {
+            new Notice(`Could not update "${file.basename}": ${error.message}`);
+        }
+    }
+}
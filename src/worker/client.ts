@@ -0,0 +1,159 @@
+import workerSource from "inline-worker:./similarity.worker";
+import { runNamedJob } from "./jobs";
+import type { JobInput, JobName, JobOutput, JobTick, WorkerConfig } from "./jobs";
+import { PROGRESS_INTERVAL_MS } from "./protocol";
+import type { WorkerRequest, WorkerResponse } from "./protocol";
+
+/**
+ * Runs similarity jobs in a shared Web Worker so large scans don't block the
+ * UI.  Where workers are unavailable, or the worker fails to start, jobs run
+ * on the main thread instead, yielding to the event loop as they go.
+ */
+
+interface PendingJob {
+    job: JobName;
+    input: unknown;
+    resolve: (output: unknown) => void;
+    reject: (error: Error) => void;
+    onProgress?: (current: number, total: number) => void;
+}
+
+let config: WorkerConfig = { titleRewriteRules: [], foldDiacritics: false };
+let worker: Worker | null = null;
+let workerUrl: string | null = null;
+let workerFailed = false;
+let nextId = 1;
+const pending = new Map<number, PendingJob>();
+
+/** Settings sent along with every job, mirroring what the main thread's similarity modules use. */
+export function setWorkerConfig(next: WorkerConfig): void {
+    config = next;
+}
+
+/** Stop the worker and fail any jobs still running in it.  Called on plugin unload. */
+export function terminateWorker(): void {
+    for (const [id, entry] of pending) {
+        pending.delete(id);
+        entry.reject(new Error("Similarity worker stopped"));
+    }
+    stopWorker();
+}
+
+function stopWorker(): void {
+    worker?.terminate();
+    worker = null;
+    if (workerUrl) URL.revokeObjectURL(workerUrl);
+    workerUrl = null;
+}
+
+function getWorker(): Worker | null {
+    if (worker || workerFailed) return worker;
+    if (typeof Worker === "undefined" || typeof Blob === "undefined") {
+        workerFailed = true;
+        return null;
+    }
+    try {
+        workerUrl = URL.createObjectURL(new Blob([workerSource], { type: "text/javascript" }));
+        worker = new Worker(workerUrl);
+    } catch (error) {
+        console.warn("Duplicate Reviewer: similarity worker unavailable, scanning on the main thread", error);
+        workerFailed = true;
+        stopWorker();
+        return null;
+    }
+    worker.onmessage = (event: MessageEvent<WorkerResponse>) => handleResponse(event.data);
+    worker.onerror = (event) => {
+        event.preventDefault();
+        console.warn("Duplicate Reviewer: similarity worker failed, scanning on the main thread", event.message);
+        workerFailed = true;
+        stopWorker();
+        // Whatever the worker had in hand starts over here
+        for (const [id, entry] of pending) runLocally(id, entry);
+    };
+    return worker;
+}
+
+function handleResponse(response: WorkerResponse): void {
+    const entry = pending.get(response.id);
+    if (!entry) return;
+    if (response.type === "progress") {
+        entry.onProgress?.(response.current, response.total);
+        return;
+    }
+    pending.delete(response.id);
+    if (response.type === "done") {
+        entry.resolve(response.output);
+    } else {
+        entry.reject(new Error(response.message));
+    }
+}
+
+function yieldToEventLoop(): Promise<void> {
+    return new Promise((resolve) => setTimeout(resolve, 0));
+}
+
+async function runLocally(id: number, entry: PendingJob): Promise<void> {
+    let lastYield = Date.now();
+    const tick: JobTick = async (current, total) => {
+        if (Date.now() - lastYield < PROGRESS_INTERVAL_MS) return;
+        entry.onProgress?.(current, total);
+        await yieldToEventLoop();
+        lastYield = Date.now();
+        if (!pending.has(id)) throw new Error("Job cancelled");
+    };
+
+    try {
+        const output = await runNamedJob(entry.job, entry.input, tick);
+        if (pending.delete(id)) entry.resolve(output);
+    } catch (error) {
+        if (pending.delete(id)) entry.reject(error instanceof Error ? error : new Error(String(error)));
+    }
+}
+
+/**
+ * Run one job, in the worker when possible.  Aborting `signal` cancels the
+ * job and rejects; `onProgress` receives (throttled) item counts.
+ */
+export function runJob<N extends JobName>(
+    job: N,
+    input: JobInput<N>,
+    signal?: AbortSignal,
+    onProgress?: (current: number, total: number) => void
+): Promise<JobOutput<N>> {
+    if (signal?.aborted) return Promise.reject(new Error("Scan cancelled"));
+
+    return new Promise<JobOutput<N>>((resolve, reject) => {
+        const id = nextId++;
+        const onAbort = () => {
+            if (!pending.delete(id)) return;
+            const request: WorkerRequest = { type: "cancel", id };
+            worker?.postMessage(request);
+            entry.reject(new Error("Scan cancelled"));
+        };
+        // Scans run many batched jobs on one signal, so each job's listener
+        // goes once the job settles
+        const entry: PendingJob = {
+            job,
+            input,
+            resolve: (output) => {
+                signal?.removeEventListener("abort", onAbort);
+                resolve(output as JobOutput<N>);
+            },
+            reject: (error) => {
+                signal?.removeEventListener("abort", onAbort);
+                reject(error);
+            },
+            onProgress,
+        };
+        pending.set(id, entry);
+        signal?.addEventListener("abort", onAbort, { once: true });
+
+        const target = getWorker();
+        if (target) {
+            const request: WorkerRequest = { type: "run", id, job, input, config };
+            target.postMessage(request);
+        } else {
+            void runLocally(id, entry);
+        }
+    });
+}
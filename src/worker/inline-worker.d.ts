@@ -0,0 +1,5 @@
+/** A worker entry bundled to a standalone script by the `inline-worker` esbuild plugin. */
+declare module "inline-worker:*" {
+    const source: string;
+    export default source;
+}
@@ -0,0 +1,557 @@
+import type { TitleRewriteRule, TitleVariant } from "src/types";
+import {
+    normalizeTitle,
+    setTitleRewriteRules,
+    setTokenizerOptions,
+    titleSimilarity,
+    titleWords,
+    wordJaccard,
+    titleIdf,
+    documentRatio,
+    weightedJaccard,
+    trigrams,
+    fuzzySimilarity,
+    extractBody,
+    normalizeBody,
+    hashString,
+    markdownToPlainText,
+    wordShingles,
+    createMinHasher,
+    minHashSignature,
+    lshBandKeys,
+    scoreContent,
+    metadataSimilarity,
+    neighborSimilarity,
+} from "src/similarity";
+import type { ContentCompareOptions, ContentScores, NoteMetadata, PlainTextOptions } from "src/similarity";
+
+/**
+ * Pure similarity and indexing work, run inside the similarity worker (or on
+ * the main thread when workers are unavailable).  Jobs take and return plain
+ * structured-cloneable data; files are referred to by index into the input.
+ */
+
+/** Settings the worker's copies of the similarity modules need. */
+export interface WorkerConfig {
+    titleRewriteRules: TitleRewriteRule[];
+    foldDiacritics: boolean;
+}
+
+export function applyWorkerConfig(config: WorkerConfig): void {
+    setTitleRewriteRules(config.titleRewriteRules);
+    setTokenizerOptions({ foldDiacritics: config.foldDiacritics });
+}
+
+/**
+ * Called by a job after each item.  Reports progress, and is where the job
+ * yields and throws if it has been cancelled.
+ */
+export type JobTick = (current: number, total: number) => Promise<void>;
+
+/** A note as read on the main thread: raw content plus the metadata cache's frontmatter end. */
+export interface RawNote {
+    content: string;
+    frontmatterEnd?: number;
+}
+
+function plainText(note: RawNote, options: PlainTextOptions): string {
+    return markdownToPlainText(extractBody(note.content, note.frontmatterEnd), options);
+}
+
+// ── titles ─────────────────────────────────────────────────────────────────
+
+export interface TitleJob {
+    /** Every title of each note; the first is its filename. */
+    titles: TitleVariant[][];
+    threshold: number;
+    /** Score with IDF-weighted Jaccard instead of plain Jaccard. */
+    weightByIdf: boolean;
+    /**
+     * Leave words found in more than this share of titles out of the index
+     * buckets.  Titles made only of such words still index all of them, so
+     * "Meeting notes" can meet its twin; pairs sharing nothing but common
+     * words are skipped, which trades a little recall for speed.
+     */
+    pruneRatio?: number;
+    /** Notes before this index are only indexed, never compared among themselves. */
+    compareFrom: number;
+}
+
+export interface TitlePair {
+    index1: number;
+    index2: number;
+    score: number;
+    variant1: TitleVariant;
+    variant2: TitleVariant;
+}
+
+interface IndexedTitle {
+    variant: TitleVariant;
+    words: Set<string>;
+}
+
+/**
+ * Inverted-index single pass over title words.
+ *
+ * For each note, its words are looked up in the index to find earlier notes
+ * that share at least one word.  Only those candidate pairs are scored, as
+ * the best-matching pair of their titles — the vast majority of the vault
+ * never needs to be compared at all.
+ */
+async function titlePairs(job: TitleJob, tick: JobTick): Promise<TitlePair[]> {
+    const pairs: TitlePair[] = [];
+    const count = job.titles.length;
+
+    // inverted index: normalised word → note indices already processed
+    const index = new Map<string, number[]>();
+    const indexedTitles: IndexedTitle[][] = [];
+
+    // Weighting and pruning need frequencies over the whole note set up front
+    const needsIdf = job.weightByIdf || job.pruneRatio !== undefined;
+    const idf = needsIdf ? titleIdf(job.titles) : null;
+
+    for (let i = 0; i < count; i++) {
+        const own = job.titles[i].map((variant) => ({ variant, words: titleWords(variant.title) }));
+        indexedTitles.push(own);
+
+        // Words this note is indexed (and looked up) under, across all its titles
+        const indexWords = new Set<string>();
+        for (const { words } of own) {
+            let keep: Iterable<string> = words;
+            if (idf && job.pruneRatio !== undefined) {
+                const rare = [...words].filter((w) => documentRatio(idf, w) <= job.pruneRatio!);
+                if (rare.length > 0) keep = rare;
+            }
+            for (const w of keep) indexWords.add(w);
+        }
+
+        // Collect candidate indices: notes already in the index that share ≥1 word
+        const candidateIndices = new Set<number>();
+        if (i >= job.compareFrom) {
+            for (const w of indexWords) {
+                const bucket = index.get(w);
+                if (bucket) {
+                    for (const idx of bucket) {
+                        candidateIndices.add(idx);
+                    }
+                }
+            }
+        }
+
+        // Score only the candidates, keeping the best pair of titles
+        for (const j of candidateIndices) {
+            let best: TitlePair | null = null;
+            for (const other of indexedTitles[j]) {
+                for (const mine of own) {
+                    const score = idf && job.weightByIdf
+                        ? weightedJaccard(other.words, mine.words, idf)
+                        : wordJaccard(other.words, mine.words);
+                    if (!best || score > best.score) {
+                        best = { index1: j, index2: i, score, variant1: other.variant, variant2: mine.variant };
+                    }
+                }
+            }
+            if (best && best.score >= job.threshold) pairs.push(best);
+        }
+
+        // Insert this note into the index
+        for (const w of indexWords) {
+            let bucket = index.get(w);
+            if (!bucket) {
+                bucket = [];
+                index.set(w, bucket);
+            }
+            bucket.push(i);
+        }
+
+        await tick(i + 1, count);
+    }
+
+    return pairs;
+}
+
+export interface FuzzyTitleJob {
+    /** One title (the filename) per note. */
+    titles: string[];
+    threshold: number;
+    compareFrom: number;
+}
+
+export interface FuzzyTitlePair {
+    index1: number;
+    index2: number;
+    fuzzy: number;
+    titleSimilarity: number;
+}
+
+/**
+ * Typo-tolerant variant of `titlePairs`.
+ *
+ * The inverted index keys on character trigrams instead of whole words, so
+ * "Kubernetes" and "Kubernets" still meet in most buckets.  Before scoring, a
+ * candidate must share enough trigrams to possibly reach the threshold: one
+ * edit changes at most three trigrams, and trigram Jaccard can't exceed
+ * shared / max(|A|, |B|).  Pairs that pass are scored with `fuzzySimilarity`
+ * and keep their word-Jaccard `titleSimilarity` alongside.
+ */
+async function fuzzyTitlePairs(job: FuzzyTitleJob, tick: JobTick): Promise<FuzzyTitlePair[]> {
+    const pairs: FuzzyTitlePair[] = [];
+    const count = job.titles.length;
+
+    // inverted index: trigram → note indices already processed
+    const index = new Map<string, number[]>();
+    const norms: string[] = [];
+    const gramSets: Set<string>[] = [];
+
+    for (let i = 0; i < count; i++) {
+        const norm = normalizeTitle(job.titles[i]);
+        const grams = trigrams(norm);
+        norms.push(norm);
+        gramSets.push(grams);
+
+        // Count shared trigrams with each previously-seen note
+        const shared = new Map<number, number>();
+        if (i >= job.compareFrom) {
+            for (const g of grams) {
+                const bucket = index.get(g);
+                if (bucket) {
+                    for (const idx of bucket) {
+                        shared.set(idx, (shared.get(idx) || 0) + 1);
+                    }
+                }
+            }
+        }
+
+        for (const [j, count] of shared) {
+            const otherGrams = gramSets[j];
+            const maxGrams = Math.max(grams.size, otherGrams.size);
+            const maxEdits = Math.floor((1 - job.threshold) * Math.max(norm.length, norms[j].length));
+            const editBoundOk = count >= maxGrams - 3 * maxEdits;
+            const jaccardBoundOk = count >= job.threshold * maxGrams;
+            if (!editBoundOk && !jaccardBoundOk) continue;
+
+            const fuzzy = fuzzySimilarity(norm, norms[j], grams, otherGrams);
+            if (fuzzy >= job.threshold) {
+                pairs.push({
+                    index1: j,
+                    index2: i,
+                    fuzzy,
+                    titleSimilarity: titleSimilarity(job.titles[j], job.titles[i]),
+                });
+            }
+        }
+
+        // Insert this note into the index
+        for (const g of grams) {
+            let bucket = index.get(g);
+            if (!bucket) {
+                bucket = [];
+                index.set(g, bucket);
+            }
+            bucket.push(i);
+        }
+
+        await tick(i + 1, count);
+    }
+
+    return pairs;
+}
+
+// ── metadata ───────────────────────────────────────────────────────────────
+
+export interface MetadataJob {
+    notes: NoteMetadata[];
+    threshold: number;
+    compareFrom: number;
+}
+
+export interface MetadataPair {
+    index1: number;
+    index2: number;
+    score: number;
+    sharedIdentifier?: { key: string; value: string };
+}
+
+/**
+ * Inverted-index single pass over identifiers and links (plus tags when
+ * the threshold is low enough for tags alone to reach it).  Above 0.5 a
+ * pair needs a shared identifier or link to score high enough, so the
+ * largest buckets — popular tags — never need to be walked.
+ */
+async function metadataPairs(job: MetadataJob, tick: JobTick): Promise<MetadataPair[]> {
+    const pairs: MetadataPair[] = [];
+    const count = job.notes.length;
+    const indexTags = job.threshold <= 0.5;
+
+    // inverted index: "kind:value" → note indices already processed
+    const index = new Map<string, number[]>();
+
+    for (let i = 0; i < count; i++) {
+        const note = job.notes[i];
+        const keys = new Set<string>();
+        for (const [value] of note.identifiers) keys.add(`id:${value}`);
+        for (const link of note.links) keys.add(`link:${link}`);
+        if (indexTags) {
+            for (const tag of note.tags) keys.add(`tag:${tag}`);
+        }
+
+        const candidateIndices = new Set<number>();
+        if (i >= job.compareFrom) {
+            for (const key of keys) {
+                for (const idx of index.get(key) || []) candidateIndices.add(idx);
+            }
+        }
+
+        for (const j of candidateIndices) {
+            const result = metadataSimilarity(job.notes[j], note);
+            if (result.score >= job.threshold) {
+                pairs.push({ index1: j, index2: i, ...result });
+            }
+        }
+
+        for (const key of keys) {
+            let bucket = index.get(key);
+            if (!bucket) {
+                bucket = [];
+                index.set(key, bucket);
+            }
+            bucket.push(i);
+        }
+
+        await tick(i + 1, count);
+    }
+
+    return pairs;
+}
+
+// ── link graph ─────────────────────────────────────────────────────────────
+
+export interface LinkGraphJob {
+    paths: string[];
+    /** Per note: paths it links to or is linked from. */
+    neighbors: string[][];
+    threshold: number;
+    /** Pairs sharing fewer neighbors than this are dropped whatever their score. */
+    minShared: number;
+    /** Neighbors of more notes than this don't propose pairs (they still count when scoring). */
+    maxFanout: number;
+}
+
+export interface LinkGraphPair {
+    index1: number;
+    index2: number;
+    score: number;
+    sharedNeighbors: string[];
+}
+
+/**
+ * Inverted index from neighbor path to the notes that have it; every two
+ * notes in a bucket are scored.  Hubs (an index note linked from everywhere)
+ * would pair every note with every other, so their buckets are skipped.
+ */
+async function linkGraphPairs(job: LinkGraphJob, tick: JobTick): Promise<LinkGraphPair[]> {
+    const count = job.paths.length;
+
+    // neighbor path → indices of the notes that have it
+    const index = new Map<string, number[]>();
+    for (let i = 0; i < count; i++) {
+        for (const neighbor of job.neighbors[i]) {
+            let bucket = index.get(neighbor);
+            if (!bucket) {
+                bucket = [];
+                index.set(neighbor, bucket);
+            }
+            bucket.push(i);
+        }
+    }
+
+    const pairs: LinkGraphPair[] = [];
+    for (let i = 0; i < count; i++) {
+        const candidateIndices = new Set<number>();
+        for (const neighbor of job.neighbors[i]) {
+            const bucket = index.get(neighbor)!;
+            if (bucket.length > job.maxFanout) continue;
+            for (const j of bucket) {
+                if (j > i) candidateIndices.add(j);
+            }
+        }
+
+        for (const j of candidateIndices) {
+            const result = neighborSimilarity(job.paths[i], job.neighbors[i], job.paths[j], job.neighbors[j]);
+            if (result.score >= job.threshold && result.shared.length >= job.minShared) {
+                pairs.push({ index1: i, index2: j, score: result.score, sharedNeighbors: result.shared });
+            }
+        }
+
+        await tick(i + 1, count);
+    }
+
+    return pairs;
+}
+
+// ── content ────────────────────────────────────────────────────────────────
+
+export interface BodyHashJob {
+    notes: RawNote[];
+}
+
+/** Hash of each note's normalized body; "" for an empty body. */
+async function bodyHashes(job: BodyHashJob, tick: JobTick): Promise<string[]> {
+    const hashes: string[] = [];
+    for (let i = 0; i < job.notes.length; i++) {
+        const note = job.notes[i];
+        const body = normalizeBody(extractBody(note.content, note.frontmatterEnd));
+        hashes.push(body.length > 0 ? hashString(body) : "");
+        await tick(i + 1, job.notes.length);
+    }
+    return hashes;
+}
+
+export interface MinHashJob {
+    notes: RawNote[];
+    plainText: PlainTextOptions;
+    shingleSize: number;
+    bands: number;
+    rows: number;
+}
+
+/** MinHash signature of each note's shingles; empty when it has none. */
+async function minHashes(job: MinHashJob, tick: JobTick): Promise<number[][]> {
+    const hasher = createMinHasher(job.bands, job.rows);
+    const signatures: number[][] = [];
+    for (let i = 0; i < job.notes.length; i++) {
+        const shingles = wordShingles(plainText(job.notes[i], job.plainText), job.shingleSize);
+        signatures.push(shingles.size > 0 ? Array.from(minHashSignature(shingles, hasher)) : []);
+        await tick(i + 1, job.notes.length);
+    }
+    return signatures;
+}
+
+export interface LshJob {
+    /** Signature per note; null or empty for notes left out of the comparison. */
+    signatures: (number[] | null)[];
+    bands: number;
+    rows: number;
+    /** Buckets larger than this are boilerplate and skipped. */
+    maxBucketSize: number;
+    /** When set, only pairs with at least one changed note are returned. */
+    changed?: boolean[];
+    /**
+     * With `changed`: the previous signatures of the changed notes and of
+     * notes removed since.  A bucket of unchanged notes that crossed
+     * `maxBucketSize` either way gains or loses pairs between them, so the
+     * job then returns null and the caller scans in full.
+     */
+    previous?: number[][];
+}
+
+/**
+ * Drop every signature into one LSH bucket per band; notes sharing any
+ * bucket become candidate pairs, each reported once.
+ */
+async function lshPairs(job: LshJob, tick: JobTick): Promise<[number, number][] | null> {
+    const hasher = createMinHasher(job.bands, job.rows);
+
+    // LSH bucket key → note indices
+    const buckets = new Map<string, number[]>();
+    for (let i = 0; i < job.signatures.length; i++) {
+        const signature = job.signatures[i];
+        if (!signature || signature.length === 0) continue;
+        for (const key of lshBandKeys(Uint32Array.from(signature), hasher)) {
+            let bucket = buckets.get(key);
+            if (!bucket) {
+                bucket = [];
+                buckets.set(key, bucket);
+            }
+            bucket.push(i);
+        }
+    }
+
+    if (job.changed && job.previous) {
+        // Changed and removed notes each bucket held before the changes
+        const before = new Map<string, number>();
+        for (const signature of job.previous) {
+            if (signature.length === 0) continue;
+            for (const key of lshBandKeys(Uint32Array.from(signature), hasher)) {
+                before.set(key, (before.get(key) || 0) + 1);
+            }
+        }
+        for (const [key, bucket] of buckets) {
+            const unchanged = bucket.filter((i) => !job.changed![i]).length;
+            if (unchanged < 2) continue;
+            const wasSkipped = unchanged + (before.get(key) || 0) > job.maxBucketSize;
+            if (wasSkipped !== bucket.length > job.maxBucketSize) return null;
+        }
+    }
+
+    const seen = new Set<string>();
+    const pairs: [number, number][] = [];
+    let done = 0;
+    for (const bucket of buckets.values()) {
+        done++;
+        if (bucket.length < 2 || bucket.length > job.maxBucketSize) continue;
+        for (let a = 0; a < bucket.length; a++) {
+            for (let b = a + 1; b < bucket.length; b++) {
+                if (job.changed && !job.changed[bucket[a]] && !job.changed[bucket[b]]) continue;
+                const key = `${bucket[a]}:${bucket[b]}`;
+                if (seen.has(key)) continue;
+                seen.add(key);
+                pairs.push([bucket[a], bucket[b]]);
+            }
+        }
+        await tick(done, buckets.size);
+    }
+    return pairs;
+}
+
+export interface ScorePairsJob {
+    notes: RawNote[];
+    /** Indices into `notes`. */
+    pairs: [number, number][];
+    plainText: PlainTextOptions;
+    compare: ContentCompareOptions;
+}
+
+export type PairScores = ContentScores & { likelyDuplicate?: boolean };
+
+/** Content scores for each pair, in input order. */
+async function scorePairs(job: ScorePairsJob, tick: JobTick): Promise<PairScores[]> {
+    const texts = new Map<number, string>();
+    const text = (i: number) => {
+        let t = texts.get(i);
+        if (t === undefined) {
+            t = plainText(job.notes[i], job.plainText);
+            texts.set(i, t);
+        }
+        return t;
+    };
+
+    const scores: PairScores[] = [];
+    for (let p = 0; p < job.pairs.length; p++) {
+        const [i, j] = job.pairs[p];
+        scores.push(scoreContent(text(i), text(j), job.compare));
+        await tick(p + 1, job.pairs.length);
+    }
+    return scores;
+}
+
+export const jobs = {
+    "title": titlePairs,
+    "fuzzy-title": fuzzyTitlePairs,
+    "metadata": metadataPairs,
+    "link-graph": linkGraphPairs,
+    "body-hash": bodyHashes,
+    "minhash": minHashes,
+    "lsh": lshPairs,
+    "score-pairs": scorePairs,
+};
+
+export type JobName = keyof typeof jobs;
+export type JobInput<N extends JobName> = Parameters<(typeof jobs)[N]>[0];
+export type JobOutput<N extends JobName> = Awaited<ReturnType<(typeof jobs)[N]>>;
+
+/** Run a job by name on whatever thread this is. */
+export function runNamedJob(name: JobName, input: unknown, tick: JobTick): Promise<unknown> {
+    const job = jobs[name] as (input: unknown, tick: JobTick) => Promise<unknown>;
+    return job(input, tick);
+}
@@ -0,0 +1,15 @@
+import type { JobName, WorkerConfig } from "./jobs";
+
+/** Messages from the plugin to the similarity worker. */
+export type WorkerRequest =
+    | { type: "run"; id: number; job: JobName; input: unknown; config: WorkerConfig }
+    | { type: "cancel"; id: number };
+
+/** Messages from the similarity worker back to the plugin. */
+export type WorkerResponse =
+    | { type: "progress"; id: number; current: number; total: number }
+    | { type: "done"; id: number; output: unknown }
+    | { type: "error"; id: number; message: string };
+
+// How often a running job reports progress and checks for cancellation
+export const PROGRESS_INTERVAL_MS = 50;
@@ -0,0 +1,59 @@
+/**
+ * Entry point of the similarity worker.  Bundled on its own by the
+ * `inline-worker` esbuild plugin and started from a Blob URL by `client.ts`.
+ */
+import { applyWorkerConfig, runNamedJob } from "./jobs";
+import type { JobTick } from "./jobs";
+import { PROGRESS_INTERVAL_MS } from "./protocol";
+import type { WorkerRequest, WorkerResponse } from "./protocol";
+
+interface WorkerScope {
+    onmessage: ((event: MessageEvent<WorkerRequest>) => void) | null;
+    postMessage(message: WorkerResponse): void;
+}
+
+const scope = self as unknown as WorkerScope;
+
+// Jobs in progress, and those of them cancelled; their tick throws at the next check
+const running = new Set<number>();
+const cancelled = new Set<number>();
+
+function yieldToEventLoop(): Promise<void> {
+    return new Promise((resolve) => setTimeout(resolve, 0));
+}
+
+async function run(id: number, request: Extract<WorkerRequest, { type: "run" }>): Promise<void> {
+    applyWorkerConfig(request.config);
+    running.add(id);
+
+    let lastReport = Date.now();
+    const tick: JobTick = async (current, total) => {
+        if (Date.now() - lastReport < PROGRESS_INTERVAL_MS) return;
+        scope.postMessage({ type: "progress", id, current, total });
+        // Let queued cancel messages in
+        await yieldToEventLoop();
+        lastReport = Date.now();
+        if (cancelled.has(id)) throw new Error("Job cancelled");
+    };
+
+    try {
+        const output = await runNamedJob(request.job, request.input, tick);
+        scope.postMessage({ type: "done", id, output });
+    } catch (error) {
+        if (!cancelled.has(id)) {
+            scope.postMessage({ type: "error", id, message: error instanceof Error ? error.message : String(error) });
+        }
+    } finally {
+        running.delete(id);
+        cancelled.delete(id);
+    }
+}
+
+scope.onmessage = (event) => {
+    const request = event.data;
+    if (request.type === "cancel") {
+        if (running.has(request.id)) cancelled.add(request.id);
+    } else {
+        void run(request.id, request);
+    }
+};